@@ -1,3 +1,5 @@
+import type { TakeoutLocale } from './types/processing.js';
+
 // All extensions are lowercase - use case-insensitive comparison (ext.toLowerCase())
 export const MEDIA_EXTENSIONS = [
   // Photos
@@ -9,6 +11,8 @@ export const MEDIA_EXTENSIONS = [
   '.heif',
   '.dng',
   '.webp',
+  '.avif',
+  '.jxl',
   '.bmp',
   '.tiff',
   '.tif',
@@ -16,6 +20,10 @@ export const MEDIA_EXTENSIONS = [
   '.cr2',
   '.nef',
   '.arw',
+  '.cr3',
+  '.orf',
+  '.rw2',
+  '.raf',
   // Videos
   '.mp4',
   '.mov',
@@ -23,6 +31,7 @@ export const MEDIA_EXTENSIONS = [
   '.mkv',
   '.webm',
   '.3gp',
+  '.3g2',
   '.m4v',
 ];
 
@@ -35,6 +44,8 @@ export const PHOTO_EXTENSIONS = [
   '.heif',
   '.dng',
   '.webp',
+  '.avif',
+  '.jxl',
   '.bmp',
   '.tiff',
   '.tif',
@@ -42,12 +53,78 @@ export const PHOTO_EXTENSIONS = [
   '.cr2',
   '.nef',
   '.arw',
+  '.cr3',
+  '.orf',
+  '.rw2',
+  '.raf',
+];
+
+// Camera RAW formats: metadata goes to an XMP sidecar, the RAW file is never rewritten
+export const RAW_EXTENSIONS = [
+  '.raw',
+  '.dng',
+  '.cr2',
+  '.cr3',
+  '.nef',
+  '.arw',
+  '.orf',
+  '.rw2',
+  '.raf',
 ];
 
-export const YEAR_FOLDER_PATTERN = /^Photos from (\d{4})$/;
+// Live Photos and motion photos: a still image and a short video with the same name
+export const LIVE_PHOTO_STILL_EXTENSIONS = ['.heic', '.heif', '.jpg', '.jpeg'];
+export const LIVE_PHOTO_VIDEO_EXTENSIONS = ['.mov', '.mp4'];
+
 export const DUPLICATE_PATTERN = /^(.+)\((\d+)\)(\.[^.]+)$/;
 // Matches date patterns: YYYYMMDD, YYYY-MM-DD, YYYY_MM_DD (at start or after non-digit)
 // Captures year in group 1 for extraction
 export const DATE_PATTERN = /(?:^|[^0-9])(20[0-2]\d)[-_]?([01]\d)[-_]?([0-3]\d)/;
 
-export const GOOGLE_PHOTOS_DIR = 'Takeout/Google Photos';
+// Multi-part Takeout archive names: takeout-<timestamp>[-<n>]-<part>.<ext>
+// Captures the export id in group 1 and the part number in group 2
+export const TAKEOUT_PART_PATTERN =
+  /^(takeout-\d{8}T\d{6}Z(?:-\d+)?)-(\d{3,})\.(?:zip|tgz|tar\.gz)$/i;
+
+export const TAKEOUT_DIR = 'Takeout';
+
+// Takeout folder names depend on the account language. The first entry is the default.
+// yearFolderPattern captures the year in group 1
+export const TAKEOUT_LOCALES: TakeoutLocale[] = [
+  {
+    id: 'en',
+    photosDir: 'Google Photos',
+    yearFolderPattern: /^Photos from (\d{4})$/,
+    editedSuffix: '-edited',
+    albumMetadataFile: 'metadata.json',
+  },
+  {
+    id: 'de',
+    photosDir: 'Google Fotos',
+    yearFolderPattern: /^Fotos von (\d{4})$/,
+    editedSuffix: '-bearbeitet',
+    albumMetadataFile: 'Metadaten.json',
+  },
+  {
+    id: 'fr',
+    photosDir: 'Google Photos',
+    yearFolderPattern: /^Photos de (\d{4})$/,
+    editedSuffix: '-modifié',
+    albumMetadataFile: 'métadonnées.json',
+  },
+  {
+    id: 'es',
+    photosDir: 'Google Fotos',
+    yearFolderPattern: /^Fotos de (\d{4})$/,
+    editedSuffix: '-editado',
+    albumMetadataFile: 'metadatos.json',
+  },
+];
+
+export const DEFAULT_LOCALE = TAKEOUT_LOCALES[0];
+
+// Safety limits for archive extraction (ZIP and TGZ)
+export const MAX_UNCOMPRESSED_SIZE = 500 * 1024 * 1024 * 1024; // 500 GB max total
+export const MAX_FILE_COUNT = 2_000_000; // 2 million files max
+export const MAX_COMPRESSION_RATIO = 100; // Reject if compression ratio > 100:1 (zip bomb indicator)
+export const MIN_ENTRY_RATIO_CHECK_SIZE = 1024 * 1024; // Per-entry ratio check only from 1 MB
@@ -4,17 +4,23 @@ import fs from 'fs-extra';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { program } from 'commander';
-import type { Config, ProcessingContext, ProcessingStats } from './types/processing.js';
+import type { Config, InputMode, ProcessingContext, ProcessingStats } from './types/processing.js';
 import { ProgressTracker } from './utils/progress.js';
 import { validateEnvironment } from './utils/validation.js';
 import logger, { configureLogger } from './utils/logger.js';
-import { extractZipFiles } from './phases/1-extraction.js';
+import { extractZipFiles, indexZipFiles } from './phases/1-extraction.js';
 import { discoverMediaFiles } from './phases/2-discovery.js';
 import { analyzeFiles } from './phases/3-analysis.js';
 import { organizeFiles } from './phases/4-organization.js';
 import { writeExifData } from './phases/5-exif.js';
 import { setFileTimestamps } from './phases/6-timestamps.js';
 import { offerCleanup } from './utils/cleanup.js';
+import { INVENTORY_CSV_FILENAME, INVENTORY_JSON_FILENAME } from './services/inventory.js';
+import { DUPLICATES_MANIFEST_FILENAME } from './services/duplicate-resolver.js';
+import { ALBUMS_REPORT_FILENAME } from './services/album-catalog.js';
+import { LINK_REPORT_FILENAME } from './services/file-organizer.js';
+import { findTakeoutFolders } from './utils/takeout-folders.js';
+import { DEFAULT_LOCALE, TAKEOUT_DIR } from './constants.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -38,11 +44,15 @@ program
   .name('google-takeout-photos-organizer')
   .description('Organize Google Takeout photos by year and album with EXIF metadata')
   .version('1.0.0')
-  .option('-i, --input <dir>', 'Directory containing Google Takeout ZIP files')
+  .option('-i, --input <dir>', 'Directory containing Google Takeout ZIP files or Takeout folders')
   .option('-o, --output <dir>', 'Output directory for organized photos')
+  .option(
+    '-m, --mode <mode>',
+    'Input mode: "extract" (stage ZIPs), "stream" (read ZIPs in place) or "folder" (use extracted Takeout folders)'
+  )
   .parse();
 
-const cliOptions = program.opts<{ input?: string; output?: string }>();
+const cliOptions = program.opts<{ input?: string; output?: string; mode?: InputMode }>();
 
 async function loadConfig(): Promise<Config> {
   const defaultConfig = await loadDefaultConfig();
@@ -68,6 +78,10 @@ async function loadConfig(): Promise<Config> {
           exif: { ...config.exif, ...fileConfig.exif },
           logging: { ...config.logging, ...fileConfig.logging },
         };
+        // Configs from before processing.linkMode turned hard links off with useHardLinks
+        if (fileConfig.processing?.useHardLinks === false && !fileConfig.processing.linkMode) {
+          config.processing.linkMode = 'copy';
+        }
         logger.debug('Loaded config from', { path: configPath });
         break;
       } catch (error) {
@@ -86,6 +100,9 @@ async function loadConfig(): Promise<Config> {
   if (cliOptions.output) {
     config.output.outputDir = cliOptions.output;
   }
+  if (cliOptions.mode) {
+    config.input.mode = cliOptions.mode;
+  }
 
   return config;
 }
@@ -103,17 +120,43 @@ function createProcessingContext(config: Config): ProcessingContext {
   const byAlbumDir = config.output.byAlbumSubdir
     ? path.join(outputDir, config.output.byAlbumSubdir)
     : outputDir;
+  const byPeopleDir = config.output.byPeopleSubdir
+    ? path.join(outputDir, config.output.byPeopleSubdir)
+    : outputDir;
+  const favoritesDir = path.join(outputDir, config.output.favoritesSubdir);
+  const archiveDir = path.join(outputDir, config.output.archiveSubdir);
+  const trashDir = path.join(outputDir, config.output.trashSubdir);
+  const duplicatesDir = path.join(outputDir, config.output.duplicatesSubdir);
 
   const stats: ProcessingStats = {
     totalFiles: 0,
     processedFiles: 0,
+    movedFiles: 0,
     failedFiles: 0,
     totalSize: 0,
+    mergedAppearances: 0,
     duplicateGroups: 0,
+    duplicateFiles: 0,
+    duplicateBytes: 0,
+    nearDuplicateClusters: 0,
+    nearDuplicateFiles: 0,
+    resolvedDuplicates: 0,
     albumCount: 0,
+    linkMethods: { hardlink: 0, reflink: 0, symlink: 0, copy: 0 },
+    linkFallbacks: 0,
     yearRange: { min: 0, max: 0 },
     exifFailures: 0,
     timestampFailures: 0,
+    rejectedEntries: 0,
+    editedVariants: 0,
+    skippedFiles: 0,
+    livePhotoPairs: 0,
+    favoriteFiles: 0,
+    archivedFiles: 0,
+    trashedFiles: 0,
+    mediaWithoutMetadata: 0,
+    orphanedSidecars: 0,
+    unsupportedFiles: 0,
   };
 
   return {
@@ -123,7 +166,18 @@ function createProcessingContext(config: Config): ProcessingContext {
     outputDir,
     byYearDir,
     byAlbumDir,
+    byPeopleDir,
+    favoritesDir,
+    archiveDir,
+    trashDir,
+    duplicatesDir,
+    takeoutDirs: [path.join(stagingDir, TAKEOUT_DIR)],
+    archiveIndex: null,
+    locale: DEFAULT_LOCALE,
+    rejectedEntries: [],
     files: new Map(),
+    albums: new Map(),
+    duplicates: [],
     stats,
   };
 }
@@ -151,9 +205,20 @@ async function main() {
     await validateEnvironment(context);
     progress.logSuccess('Environment validation passed');
 
-    // Phase 1: Extraction
-    progress.startPhase('ZIP Extraction', 1, 6);
-    await extractZipFiles(context);
+    // Phase 1: Extraction (or indexing when reading the ZIPs in place)
+    if (config.input.mode === 'folder') {
+      // Already extracted: the Takeout folders are read in place
+      context.takeoutDirs = await findTakeoutFolders(context.inputDir);
+      progress.logInfo(
+        `Skipping extraction, using ${context.takeoutDirs.length} Takeout folder(s) in place`
+      );
+    } else if (config.input.mode === 'stream') {
+      progress.startPhase('ZIP Indexing', 1, 6);
+      await indexZipFiles(context);
+    } else {
+      progress.startPhase('ZIP Extraction', 1, 6);
+      await extractZipFiles(context);
+    }
     progress.completePhase();
 
     // Phase 2: Discovery & Parsing
@@ -169,6 +234,7 @@ async function main() {
     // Phase 4: Organization
     progress.startPhase('File Organization', 4, 6);
     await organizeFiles(context);
+    await context.archiveIndex?.close();
     progress.completePhase();
 
     // Phase 5: EXIF Writing
@@ -182,9 +248,15 @@ async function main() {
     progress.completePhase();
 
     // Print summary
-    const errors = Array.from(context.files.values())
-      .filter((f) => f.error)
-      .map((f) => ({ file: f.filename, error: f.error! }));
+    const errors = [
+      ...context.rejectedEntries.map((r) => ({
+        file: `${r.archive}: ${r.entry}`,
+        error: `Rejected archive entry: ${r.reason}`,
+      })),
+      ...Array.from(context.files.values())
+        .filter((f) => f.error)
+        .map((f) => ({ file: f.filename, error: f.error! })),
+    ];
 
     progress.printSummary(context.stats, errors);
 
@@ -197,17 +269,47 @@ async function main() {
     console.log('Output locations:');
     console.log(`  By Year: ${context.byYearDir}`);
     console.log(`  By Album: ${context.byAlbumDir}`);
+    if (config.output.createPeopleFolders) {
+      console.log(`  By Person: ${context.byPeopleDir}`);
+    }
+    if (config.output.createFavoritesFolder) {
+      console.log(`  Favorites: ${context.favoritesDir}`);
+    }
+    if (config.output.separateArchived) {
+      console.log(`  Archived: ${context.archiveDir}`);
+    }
+    if (config.processing.trashedPolicy === 'quarantine') {
+      console.log(`  Trashed (quarantine): ${context.trashDir}`);
+    }
+    if (config.processing.duplicatePolicy === 'quarantine' && context.duplicates.length > 0) {
+      console.log(`  Duplicates (quarantine): ${context.duplicatesDir}`);
+    }
     console.log('\nLogs:');
     console.log(`  Processing log: ${path.join(config.logging.logDir, 'processing.log')}`);
     console.log(`  Error log: ${path.join(config.logging.logDir, 'errors.log')}`);
+    console.log(
+      `  Inventory: ${path.join(config.logging.logDir, INVENTORY_CSV_FILENAME)} (${INVENTORY_JSON_FILENAME})`
+    );
+    if (context.albums.size > 0) {
+      console.log(`  Albums: ${path.join(config.logging.logDir, ALBUMS_REPORT_FILENAME)}`);
+    }
+    if (Object.values(context.stats.linkMethods).some((count) => count > 0)) {
+      console.log(`  Link report: ${path.join(config.logging.logDir, LINK_REPORT_FILENAME)}`);
+    }
+    if (context.duplicates.length > 0) {
+      console.log(
+        `  Duplicate manifest: ${path.join(config.logging.logDir, DUPLICATES_MANIFEST_FILENAME)}`
+      );
+    }
     console.log('');
 
-    // Offer cleanup of temporary files
+    // Offer cleanup of temporary files (input Takeout folders are not ours to delete)
     const hasFailures = context.stats.failedFiles > 0;
     await offerCleanup(
-      context.stagingDir,
+      config.input.mode === 'folder' ? null : context.stagingDir,
       path.resolve(process.cwd(), config.logging.logDir),
-      hasFailures
+      hasFailures,
+      context.stats.movedFiles
     );
   } catch (error) {
     progress.logError('Fatal error during processing');
@@ -1,185 +1,245 @@
-import extract from 'extract-zip';
-import { glob } from 'glob';
+import fs from 'fs-extra';
+import pLimit from 'p-limit';
 import path from 'path';
-import yauzl from 'yauzl';
-import type { ProcessingContext } from '../types/processing.js';
+import type { ArchiveValidationResult, ProcessingContext } from '../types/processing.js';
+import { ZipArchiveIndex } from '../services/zip-archive-index.js';
+import { extractZipArchive, validateZipFile, type EntryRegistry } from '../services/zip-archive.js';
+import { ExtractionManifest, type ArchiveFingerprint } from '../services/extraction-manifest.js';
+import { extractTarArchive, validateTarArchive } from '../services/tar-archive.js';
+import { findArchives, type TakeoutArchive } from '../utils/archive-utils.js';
 import { sleep, formatBytes } from '../utils/file-utils.js';
 import logger from '../utils/logger.js';
 
-// Safety limits for ZIP extraction
-const MAX_UNCOMPRESSED_SIZE = 500 * 1024 * 1024 * 1024; // 500 GB max total
-const MAX_FILE_COUNT = 2_000_000; // 2 million files max
-const MAX_COMPRESSION_RATIO = 100; // Reject if compression ratio > 100:1 (zip bomb indicator)
+async function findTakeoutArchives(context: ProcessingContext): Promise<TakeoutArchive[]> {
+  const archives = await findArchives(context.config.input);
+
+  if (archives.length === 0) {
+    throw new Error(`No archives found matching pattern: ${context.config.input.zipPattern}`);
+  }
+
+  return archives;
+}
 
 export async function extractZipFiles(context: ProcessingContext): Promise<void> {
-  const zipFiles = await glob(context.config.input.zipPattern, {
-    cwd: context.config.input.zipDirectory,
-    absolute: true,
-  });
+  const archives = await findTakeoutArchives(context);
+  const total = archives.length;
+  const manifest = await ExtractionManifest.load(context.stagingDir);
+  const { concurrency, retryAttempts, retryDelay } = context.config.processing;
 
-  const total = zipFiles.length;
+  logger.info(`Found ${total} archives to extract`);
 
-  if (total === 0) {
-    throw new Error(`No ZIP files found matching pattern: ${context.config.input.zipPattern}`);
+  // Listing a .tgz decompresses all of it, so one the manifest records as extracted
+  // is trusted while its size and mtime are unchanged. ZIPs are always validated:
+  // reading a central directory is cheap, and their entries are registered to
+  // check the other archives against.
+  const pending: TakeoutArchive[] = [];
+  for (const archive of archives) {
+    const stats = await fs.stat(archive.path);
+    if (archive.format === 'zip' || !manifest.isFileUnchanged(archive.path, stats)) {
+      pending.push(archive);
+    }
   }
+  const results = await validateArchives(pending, context);
+  const validations = new Map(pending.map((archive, i) => [archive, results[i]]));
 
-  logger.info(`Found ${total} ZIP files to extract`);
+  logger.info(`Extracting archives with concurrency: ${concurrency}`);
 
-  for (let i = 0; i < total; i++) {
-    const zipPath = zipFiles[i];
-    const zipName = path.basename(zipPath);
-    const progress = Math.round(((i + 1) / total) * 100);
+  const limit = pLimit(concurrency);
+  let completedCount = 0;
+  let skipped = 0;
 
-    logger.info(`Extracting ZIP ${i + 1}/${total}: ${zipName} (${progress}%)`);
+  const tasks = archives.map((archive) =>
+    limit(async () => {
+      const zipName = path.basename(archive.path);
+      logger.info(`Extracting archive: ${zipName}`);
 
-    try {
-      await extractZipWithRetry(
-        zipPath,
-        context.stagingDir,
-        context.config.processing.retryAttempts,
-        context.config.processing.retryDelay
-      );
-      logger.info(`Successfully extracted: ${zipName}`);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error(`ZIP extraction failed: ${zipName}`, { error: errorMessage });
-      throw new Error(`Failed to extract ${zipName}: ${errorMessage}`);
-    }
-  }
+      try {
+        const validation = validations.get(archive);
+        const extracted =
+          validation !== undefined &&
+          (await extractArchiveWithRetry(
+            archive,
+            validation,
+            context.stagingDir,
+            manifest,
+            retryAttempts,
+            retryDelay
+          ));
 
-  logger.info(`All ${total} ZIP files extracted successfully`);
-}
+        completedCount++;
+        const progress = Math.round((completedCount / total) * 100);
+        if (extracted) {
+          logger.info(`Extracted ${completedCount}/${total}: ${zipName} (${progress}%)`);
+        } else {
+          skipped++;
+          logger.info(`Already extracted ${completedCount}/${total}: ${zipName} (${progress}%)`);
+        }
+      } catch (error) {
+        // Don't start the remaining archives, the run is going to fail anyway
+        limit.clearQueue();
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(`Archive extraction failed: ${zipName}`, { error: errorMessage });
+        throw new Error(`Failed to extract ${zipName}: ${errorMessage}`);
+      }
+    })
+  );
+
+  await Promise.all(tasks);
 
-interface ZipValidationResult {
-  valid: boolean;
-  fileCount: number;
-  compressedSize: number;
-  uncompressedSize: number;
-  compressionRatio: number;
-  error?: string;
+  logger.info(
+    `All ${total} archives extracted successfully` +
+      (skipped > 0 ? ` (${skipped} already extracted by a previous run)` : '')
+  );
 }
 
-async function validateZipFile(zipPath: string): Promise<ZipValidationResult> {
-  return new Promise((resolve) => {
-    yauzl.open(zipPath, { lazyEntries: true }, (err, zipfile) => {
-      if (err || !zipfile) {
-        resolve({
-          valid: false,
-          fileCount: 0,
-          compressedSize: 0,
-          uncompressedSize: 0,
-          compressionRatio: 0,
-          error: err?.message || 'Failed to open ZIP file',
-        });
-        return;
-      }
+/**
+ * Stream mode: validate each archive and index its central directory instead of
+ * extracting it. Entries are later read straight from the ZIPs.
+ */
+export async function indexZipFiles(context: ProcessingContext): Promise<void> {
+  const archives = await findTakeoutArchives(context);
+  const total = archives.length;
 
-      let fileCount = 0;
-      let totalUncompressedSize = 0;
-      let totalCompressedSize = 0;
-
-      zipfile.on('entry', (entry) => {
-        fileCount++;
-        totalUncompressedSize += entry.uncompressedSize;
-        totalCompressedSize += entry.compressedSize;
-
-        // Check limits incrementally
-        if (fileCount > MAX_FILE_COUNT) {
-          zipfile.close();
-          resolve({
-            valid: false,
-            fileCount,
-            compressedSize: totalCompressedSize,
-            uncompressedSize: totalUncompressedSize,
-            compressionRatio:
-              totalCompressedSize > 0 ? totalUncompressedSize / totalCompressedSize : 0,
-            error: `ZIP contains too many files (>${MAX_FILE_COUNT})`,
-          });
-          return;
-        }
+  // A .tgz has no central directory: its entries can only be read sequentially
+  const tarArchive = archives.find((archive) => archive.format !== 'zip');
+  if (tarArchive) {
+    throw new Error(
+      `Stream mode only supports ZIP archives, use extract mode for: ${path.basename(tarArchive.path)}`
+    );
+  }
 
-        if (totalUncompressedSize > MAX_UNCOMPRESSED_SIZE) {
-          zipfile.close();
-          resolve({
-            valid: false,
-            fileCount,
-            compressedSize: totalCompressedSize,
-            uncompressedSize: totalUncompressedSize,
-            compressionRatio:
-              totalCompressedSize > 0 ? totalUncompressedSize / totalCompressedSize : 0,
-            error: `ZIP uncompressed size exceeds limit (${formatBytes(totalUncompressedSize)} > ${formatBytes(MAX_UNCOMPRESSED_SIZE)})`,
-          });
-          return;
-        }
+  logger.info(`Found ${total} ZIP files to index`);
 
-        zipfile.readEntry();
-      });
+  const validations = await validateArchives(archives, context);
+  const archiveIndex = new ZipArchiveIndex(context.stagingDir);
 
-      zipfile.on('end', () => {
-        const compressionRatio =
-          totalCompressedSize > 0 ? totalUncompressedSize / totalCompressedSize : 0;
-
-        if (compressionRatio > MAX_COMPRESSION_RATIO) {
-          resolve({
-            valid: false,
-            fileCount,
-            compressedSize: totalCompressedSize,
-            uncompressedSize: totalUncompressedSize,
-            compressionRatio,
-            error: `Suspicious compression ratio (${compressionRatio.toFixed(1)}:1) - possible zip bomb`,
-          });
-          return;
-        }
+  try {
+    for (let i = 0; i < total; i++) {
+      const archive = archives[i];
+      const zipName = path.basename(archive.path);
 
-        resolve({
-          valid: true,
-          fileCount,
-          compressedSize: totalCompressedSize,
-          uncompressedSize: totalUncompressedSize,
-          compressionRatio,
-        });
-      });
+      try {
+        const added = await archiveIndex.addArchive(archive.path, validations[i].skippedEntries);
+        logger.info(`Indexed ZIP ${i + 1}/${total}: ${zipName} (${added} files)`);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(`ZIP indexing failed: ${zipName}`, { error: errorMessage });
+        throw new Error(`Failed to index ${zipName}: ${errorMessage}`);
+      }
+    }
+  } catch (error) {
+    await archiveIndex.close();
+    throw error;
+  }
 
-      zipfile.on('error', (error) => {
-        resolve({
-          valid: false,
-          fileCount,
-          compressedSize: totalCompressedSize,
-          uncompressedSize: totalUncompressedSize,
-          compressionRatio:
-            totalCompressedSize > 0 ? totalUncompressedSize / totalCompressedSize : 0,
-          error: error.message,
-        });
+  context.archiveIndex = archiveIndex;
+  logger.info(`All ${total} ZIP files indexed: ${archiveIndex.size} files available`);
+}
+
+/**
+ * Validate every archive up front, in order, so that an entry found in two archives
+ * is always reported against the same one whatever order extraction runs in.
+ * Rejected entries are reported and left out; invalid archives still fail the run.
+ */
+async function validateArchives(
+  archives: TakeoutArchive[],
+  context: ProcessingContext
+): Promise<ArchiveValidationResult[]> {
+  const registry: EntryRegistry = new Map();
+  const validations: ArchiveValidationResult[] = [];
+
+  for (const archive of archives) {
+    const zipName = path.basename(archive.path);
+    try {
+      validations.push(await assertValidArchive(archive, registry));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Archive validation failed: ${zipName}`, { error: errorMessage });
+      throw new Error(`Failed to validate ${zipName}: ${errorMessage}`);
+    }
+  }
+
+  for (const validation of validations) {
+    for (const rejected of validation.rejectedEntries ?? []) {
+      logger.warn(`Rejected archive entry: ${rejected.archive}: ${rejected.entry}`, {
+        reason: rejected.reason,
       });
+      context.rejectedEntries.push(rejected);
+    }
+  }
 
-      zipfile.readEntry();
-    });
-  });
+  context.stats.rejectedEntries = context.rejectedEntries.length;
+  if (context.rejectedEntries.length > 0) {
+    logger.warn(`${context.rejectedEntries.length} archive entries rejected, they will be skipped`);
+  }
+
+  return validations;
 }
 
-async function extractZipWithRetry(
-  zipPath: string,
-  targetDir: string,
-  retries: number,
-  retryDelay: number
-): Promise<void> {
-  // Validate ZIP before extraction
-  const validation = await validateZipFile(zipPath);
+async function assertValidArchive(
+  archive: TakeoutArchive,
+  registry: EntryRegistry
+): Promise<ArchiveValidationResult> {
+  const validation =
+    archive.format === 'zip'
+      ? await validateZipFile(archive.path, registry)
+      : await validateTarArchive(archive.path);
   if (!validation.valid) {
-    throw new Error(`ZIP validation failed: ${validation.error}`);
+    throw new Error(`${archive.format.toUpperCase()} validation failed: ${validation.error}`);
   }
 
-  logger.debug('ZIP validation passed', {
-    file: path.basename(zipPath),
+  logger.debug('Archive validation passed', {
+    file: path.basename(archive.path),
     files: validation.fileCount,
     uncompressedSize: formatBytes(validation.uncompressedSize),
     compressionRatio: `${validation.compressionRatio.toFixed(1)}:1`,
   });
 
+  return validation;
+}
+
+/**
+ * Extract an archive unless the manifest shows it was already fully extracted.
+ * Returns false when the archive was skipped.
+ */
+async function extractArchiveWithRetry(
+  archive: TakeoutArchive,
+  validation: ArchiveValidationResult,
+  targetDir: string,
+  manifest: ExtractionManifest,
+  retries: number,
+  retryDelay: number
+): Promise<boolean> {
+  const stats = await fs.stat(archive.path);
+  const fingerprint: ArchiveFingerprint = {
+    size: stats.size,
+    mtimeMs: stats.mtimeMs,
+    directoryHash: validation.directoryHash ?? '',
+    uncompressedSize: validation.uncompressedSize,
+  };
+
+  if (manifest.isExtracted(archive.path, fingerprint)) {
+    return false;
+  }
+
+  if (manifest.isPartiallyExtracted(archive.path)) {
+    logger.warn('Previous extraction was interrupted, extracting again', {
+      file: path.basename(archive.path),
+    });
+  }
+
+  // Existing files are overwritten, so a half-extracted archive is simply redone
+  await manifest.markExtracting(archive.path, fingerprint);
+
   for (let attempt = 0; attempt <= retries; attempt++) {
     try {
-      await extract(zipPath, { dir: path.resolve(targetDir) });
-      return; // Success!
+      if (archive.format === 'zip') {
+        await extractZipArchive(archive.path, targetDir, validation.skippedEntries ?? new Set());
+      } else {
+        await extractTarArchive(archive.path, targetDir);
+      }
+      await manifest.markCompleted(archive.path, fingerprint);
+      return true; // Success!
     } catch (error) {
       if (attempt === retries) {
         // Last attempt failed, throw error
@@ -190,9 +250,12 @@ async function extractZipWithRetry(
       const baseDelay = Math.max(retryDelay, 100);
       const delay = baseDelay * Math.pow(2, attempt);
       logger.warn(`Extraction attempt ${attempt + 1} failed, retrying in ${delay}ms...`, {
-        file: path.basename(zipPath),
+        file: path.basename(archive.path),
       });
       await sleep(delay);
     }
   }
+
+  // The last failed attempt rethrows, so this is only reached with negative retries
+  throw new Error(`Extraction was not attempted: ${path.basename(archive.path)}`);
 }
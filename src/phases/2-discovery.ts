@@ -1,112 +1,345 @@
 import { glob } from 'glob';
+import pLimit from 'p-limit';
 import path from 'path';
 import fs from 'fs-extra';
 import type { ProcessingContext } from '../types/processing.js';
-import type { MediaFile } from '../types/media.js';
-import { MEDIA_EXTENSIONS, GOOGLE_PHOTOS_DIR } from '../constants.js';
+import type { GoogleMetadata, MediaFile } from '../types/media.js';
+import { MEDIA_EXTENSIONS, TAKEOUT_LOCALES } from '../constants.js';
 import { ProcessingStatus } from '../types/media.js';
-import { findMetadataFile, isMetadataFile } from '../services/metadata-matcher.js';
-import { parseMetadataFile } from '../services/metadata-parser.js';
-import { parseDuplicateFilename, getSourceFolder, isAlbumFolder } from '../utils/path-utils.js';
-import { generateFileId, getFileSize } from '../utils/file-utils.js';
-import { getCorrectExtension } from '../services/magic-byte-detector.js';
+import { isMetadataFile, MetadataIndex } from '../services/metadata-matcher.js';
+import { linkEditedVariants } from '../services/edited-variants.js';
+import { pairLivePhotos } from '../services/live-photos.js';
+import { applyPhotoFlags } from '../services/photo-flags.js';
+import { Inventory } from '../services/inventory.js';
+import {
+  parseAlbumMetadataContent,
+  parseMetadataContent,
+  parseMetadataFile,
+  type AlbumMetadata,
+} from '../services/metadata-parser.js';
+import { catalogAlbums, isAlbumMetadataFile } from '../services/album-catalog.js';
+import {
+  parseDuplicateFilename,
+  getSourceFolder,
+  detectTakeoutLocale,
+  isAlbumFolder,
+} from '../utils/path-utils.js';
+import { generateFileId, getFileModifiedTime, getFileSize } from '../utils/file-utils.js';
+import { getCorrectExtension, MAGIC_BYTES_LENGTH } from '../services/magic-byte-detector.js';
+import type { ZipArchiveIndex } from '../services/zip-archive-index.js';
 import logger from '../utils/logger.js';
 
+// The Google Photos folder name depends on the account language
+const PHOTOS_DIR_NAMES = [...new Set(TAKEOUT_LOCALES.map((locale) => locale.photosDir))];
+
+interface DiscoveredFile {
+  filePath: string;
+  takeoutDir: string;
+  googlePhotosDir: string;
+}
+
 export async function discoverMediaFiles(context: ProcessingContext): Promise<void> {
-  const googlePhotosDir = path.join(context.stagingDir, GOOGLE_PHOTOS_DIR);
+  const { archiveIndex } = context;
 
-  if (!(await fs.pathExists(googlePhotosDir))) {
-    throw new Error(`Google Photos directory not found: ${googlePhotosDir}`);
-  }
+  // Find all files (not directories), either in staging or in the indexed archives.
+  // Several Takeout folders are merged: a file found in an earlier folder wins.
+  const allFiles: DiscoveredFile[] = [];
+  const seen = new Set<string>();
+  let photosDirCount = 0;
 
-  logger.info(`Scanning for media files in: ${googlePhotosDir}`);
+  for (const takeoutDir of context.takeoutDirs) {
+    const googlePhotosDir = await resolveGooglePhotosDir(takeoutDir, context);
+    if (!googlePhotosDir) {
+      logger.warn(`No Google Photos directory in ${takeoutDir}`);
+      continue;
+    }
+    photosDirCount++;
 
-  // Find all files (not directories)
-  const allFiles = await glob('**/*', {
-    cwd: googlePhotosDir,
-    nodir: true,
-    absolute: true,
-  });
+    let files: string[];
+    if (archiveIndex) {
+      logger.info(
+        `Scanning for media files in archives under: ${path.relative(context.stagingDir, googlePhotosDir)}`
+      );
+      files = archiveIndex.listFiles(googlePhotosDir);
+    } else {
+      logger.info(`Scanning for media files in: ${googlePhotosDir}`);
+      files = await glob('**/*', {
+        cwd: googlePhotosDir,
+        nodir: true,
+        absolute: true,
+      });
+    }
+
+    // Listings come in filesystem or archive order: sort them for a stable result
+    for (const filePath of files.sort()) {
+      const relativePath = path.relative(takeoutDir, filePath);
+      if (seen.has(relativePath)) {
+        logger.debug('Duplicate file in another Takeout folder ignored', { file: filePath });
+        continue;
+      }
+      seen.add(relativePath);
+      allFiles.push({ filePath, takeoutDir, googlePhotosDir });
+    }
+  }
+
+  if (photosDirCount === 0) {
+    throw new Error(
+      `Google Photos directory not found in ${context.takeoutDirs.join(', ')} (tried: ${PHOTOS_DIR_NAMES.join(', ')})`
+    );
+  }
 
   logger.info(`Found ${allFiles.length} total files`);
 
   // Filter media files (case-insensitive extension matching)
-  const mediaFiles = allFiles.filter((file) => {
-    const ext = path.extname(file).toLowerCase();
-    return MEDIA_EXTENSIONS.includes(ext) && !isMetadataFile(file);
-  });
+  const inventory = new Inventory();
+  const mediaFiles: DiscoveredFile[] = [];
+  for (const discovered of allFiles) {
+    const { filePath } = discovered;
+    if (isMetadataFile(filePath)) continue;
+
+    if (MEDIA_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) {
+      mediaFiles.push(discovered);
+    } else {
+      inventory.add(filePath, discovered.googlePhotosDir, 'unsupported');
+    }
+  }
 
   logger.info(`Found ${mediaFiles.length} media files`);
 
-  // Process each media file
+  // Index the sidecars of every folder to match truncated and renumbered names
+  const metadataIndex = new MetadataIndex((metadataPath) =>
+    loadMetadata(metadataPath, archiveIndex)
+  );
+  // Album folders also hold a metadata.json describing the album itself
+  const albumMetadata = new Map<string, AlbumMetadata>();
+  for (const discovered of allFiles) {
+    if (isAlbumMetadataFile(discovered.filePath)) {
+      await loadAlbumMetadata(discovered, albumMetadata, archiveIndex);
+    } else if (isMetadataFile(discovered.filePath)) {
+      metadataIndex.add(discovered.filePath, getFolderKey(discovered));
+    }
+  }
+
+  // Process media files concurrently, then catalog them in discovery order so the
+  // output (and duplicate numbering) does not depend on which file finished first
+  const concurrency = context.config.processing.concurrency;
+  const limit = pLimit(concurrency);
+  logger.info(`Processing ${mediaFiles.length} media files with concurrency: ${concurrency}`);
+
   let processedCount = 0;
-  for (const filePath of mediaFiles) {
-    try {
-      const mediaFile = await processMediaFile(filePath, googlePhotosDir);
-      context.files.set(mediaFile.id, mediaFile);
+  const results = await Promise.all(
+    mediaFiles.map((discovered) =>
+      limit(async (): Promise<MediaFile | null> => {
+        const { filePath } = discovered;
+        try {
+          const mediaFile = await processMediaFile(discovered, metadataIndex, context);
 
-      // Update stats
-      const fileSize = await getFileSize(filePath);
-      context.stats.totalSize += fileSize;
+          // Update stats
+          context.stats.totalSize += mediaFile.size;
 
-      processedCount++;
-      if (processedCount % 100 === 0) {
-        logger.info(`Processed ${processedCount}/${mediaFiles.length} files`);
-      }
-    } catch (error) {
-      context.stats.failedFiles++;
-      logger.error(`Failed to process media file: ${filePath}`, {
-        error: error instanceof Error ? error.message : String(error),
-      });
+          processedCount++;
+          if (processedCount % 100 === 0) {
+            logger.info(`Processed ${processedCount}/${mediaFiles.length} files`);
+          }
+          return mediaFile;
+        } catch (error) {
+          context.stats.failedFiles++;
+          logger.error(`Failed to process media file: ${filePath}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return null;
+        }
+      })
+    )
+  );
+
+  for (const mediaFile of results) {
+    if (mediaFile) {
+      context.files.set(mediaFile.id, mediaFile);
     }
   }
 
   context.stats.totalFiles = context.files.size;
   logger.info(`Discovery complete: ${context.stats.totalFiles} media files cataloged`);
 
-  // Count albums based on source folders
-  const albumNames = new Set<string>();
+  linkEditedVariants(context);
+  pairLivePhotos(context);
+  applyPhotoFlags(context);
+
+  // Edited variants and Live Photo videos have inherited their metadata by now
+  const photosDirByFile = new Map(allFiles.map((f) => [f.filePath, f.googlePhotosDir]));
   for (const file of context.files.values()) {
-    if (isAlbumFolder(file.sourceFolder)) {
-      albumNames.add(file.sourceFolder);
+    if (!file.metadata) {
+      inventory.add(
+        file.originalPath,
+        photosDirByFile.get(file.originalPath)!,
+        'media-without-metadata'
+      );
     }
   }
-  context.stats.albumCount = albumNames.size;
+  for (const sidecarPath of metadataIndex.listUnmatched()) {
+    inventory.add(sidecarPath, photosDirByFile.get(sidecarPath)!, 'orphaned-sidecar');
+  }
+  context.stats.mediaWithoutMetadata = inventory.count('media-without-metadata');
+  context.stats.orphanedSidecars = inventory.count('orphaned-sidecar');
+  context.stats.unsupportedFiles = inventory.count('unsupported');
+  await inventory.write(context.config.logging.logDir);
+
+  // Catalog albums based on source folders
+  catalogAlbums(context, albumMetadata);
+  context.stats.albumCount = context.albums.size;
   logger.info(`Discovered ${context.stats.albumCount} albums`);
 }
 
-async function processMediaFile(filePath: string, googlePhotosDir: string): Promise<MediaFile> {
+/**
+ * Read the metadata.json of an album folder (directly below the Google Photos folder)
+ */
+async function loadAlbumMetadata(
+  discovered: DiscoveredFile,
+  albumMetadata: Map<string, AlbumMetadata>,
+  archiveIndex: ZipArchiveIndex | null
+): Promise<void> {
+  const { filePath, googlePhotosDir } = discovered;
+  if (path.dirname(path.dirname(filePath)) !== googlePhotosDir) return;
+
+  const sourceFolder = getSourceFolder(filePath, googlePhotosDir);
+  if (albumMetadata.has(sourceFolder)) return;
+
+  try {
+    const content = archiveIndex
+      ? await archiveIndex.readText(filePath)
+      : await fs.readFile(filePath, 'utf-8');
+    const metadata = parseAlbumMetadataContent(content, filePath);
+    if (metadata) {
+      albumMetadata.set(sourceFolder, metadata);
+    }
+  } catch (error) {
+    logger.warn('Failed to read album metadata file', {
+      file: filePath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Find the Google Photos directory of a Takeout folder and detect the Takeout locale
+ * from the names of its year folders. Returns null if there is none.
+ */
+async function resolveGooglePhotosDir(
+  takeoutDir: string,
+  context: ProcessingContext
+): Promise<string | null> {
+  for (const photosDir of PHOTOS_DIR_NAMES) {
+    const dirPath = path.join(takeoutDir, photosDir);
+    const folderNames = await listSubfolders(dirPath, context.archiveIndex);
+    if (folderNames === null) continue;
+
+    context.locale = detectTakeoutLocale(photosDir, folderNames);
+    logger.info(`Detected Takeout locale: ${context.locale.id}`, { dir: dirPath });
+    return dirPath;
+  }
+
+  return null;
+}
+
+/**
+ * List the names of the direct subfolders of a directory, or null if it doesn't exist
+ */
+async function listSubfolders(
+  dirPath: string,
+  archiveIndex: ZipArchiveIndex | null
+): Promise<string[] | null> {
+  if (archiveIndex) {
+    const files = archiveIndex.listFiles(dirPath);
+    if (files.length === 0) return null;
+
+    const folderNames = new Set<string>();
+    for (const file of files) {
+      const parts = path.relative(dirPath, file).split(path.sep);
+      if (parts.length > 1) folderNames.add(parts[0]);
+    }
+    return Array.from(folderNames);
+  }
+
+  if (!(await fs.pathExists(dirPath))) return null;
+  const entries = await fs.readdir(dirPath, { withFileTypes: true });
+  return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+}
+
+/**
+ * Folder of a discovered file relative to its Takeout folder, so the same folder
+ * from several Takeout parts shares one key
+ */
+function getFolderKey(discovered: DiscoveredFile): string {
+  return path.relative(discovered.takeoutDir, path.dirname(discovered.filePath));
+}
+
+async function loadMetadata(
+  metadataPath: string,
+  archiveIndex: ZipArchiveIndex | null
+): Promise<GoogleMetadata | null> {
+  if (archiveIndex) {
+    return parseMetadataContent(await archiveIndex.readText(metadataPath), metadataPath);
+  }
+  return parseMetadataFile(metadataPath);
+}
+
+async function processMediaFile(
+  discovered: DiscoveredFile,
+  metadataIndex: MetadataIndex,
+  context: ProcessingContext
+): Promise<MediaFile> {
+  const { filePath, googlePhotosDir } = discovered;
+  const { archiveIndex } = context;
   const originalFilename = path.basename(filePath);
   const declaredExtension = path.extname(originalFilename);
   const sourceFolder = getSourceFolder(filePath, googlePhotosDir);
+  const archiveEntry = archiveIndex ? archiveIndex.get(filePath) : null;
 
   // Detect actual file type via magic bytes and correct extension if needed
-  const { extension, corrected } = await getCorrectExtension(filePath, declaredExtension);
+  const header = archiveIndex
+    ? await archiveIndex.readBytes(filePath, MAGIC_BYTES_LENGTH)
+    : undefined;
+  const { extension, corrected } = await getCorrectExtension(filePath, declaredExtension, header);
   const filename = corrected ? originalFilename.replace(/\.[^/.]+$/, extension) : originalFilename;
 
-  // Find and parse metadata
-  let metadata = null;
+  // Find and parse metadata (sidecars may live in a different archive or Takeout folder)
+  const metadataPath = await metadataIndex.findMetadataFile(filePath, getFolderKey(discovered));
+  const metadata = metadataPath ? await metadataIndex.load(metadataPath) : null;
 
-  const metadataPath = await findMetadataFile(filePath);
-  if (metadataPath) {
-    metadata = await parseMetadataFile(metadataPath);
-  } else {
+  if (!metadata) {
     logger.debug('No metadata found for file', { file: filename });
   }
 
-  // Detect duplicate patterns
-  const { baseFilename, duplicateIndex } = parseDuplicateFilename(filename);
+  // Renumbered copies (IMG(1).jpg) sort after the first copy in duplicate groups
+  const { duplicateIndex } = parseDuplicateFilename(filename);
 
   const mediaFile: MediaFile = {
     id: generateFileId(filePath),
     originalPath: filePath,
+    archiveEntry,
     filename,
     extension,
     metadata,
     sourceFolder,
-    duplicateGroup: baseFilename !== filename ? baseFilename : null,
+    albumFolders: isAlbumFolder(sourceFolder, context.locale) ? [sourceFolder] : [],
+    canonicalId: null,
+    size: archiveEntry ? archiveEntry.size : await getFileSize(filePath),
+    modifiedAt: archiveEntry ? archiveEntry.modifiedAt : await getFileModifiedTime(filePath),
+    contentHash: null,
+    duplicateGroup: null,
     duplicateIndex,
-    processedPaths: { byYear: null, byAlbum: null },
+    perceptualHash: null,
+    nearDuplicateCluster: null,
+    resolution: null,
+    duplicateOf: null,
+    camera: null,
+    editedFromId: null,
+    editedVersionId: null,
+    livePhotoStillId: null,
+    livePhotoVideoId: null,
+    processedPaths: { byYear: null, byAlbum: [], byPeople: [], byFavorites: null },
+    links: [],
     status: ProcessingStatus.PENDING,
     error: null,
   };
@@ -1,14 +1,38 @@
+import type { MediaFile } from '../types/media.js';
 import type { ProcessingContext } from '../types/processing.js';
 import { analyzeDuplicates } from '../services/duplicate-detector.js';
+import { analyzeNearDuplicates } from '../services/near-duplicate-detector.js';
+import { resolveDuplicates } from '../services/duplicate-resolver.js';
+import { layoutUsesCamera, readCameraInfo } from '../services/camera-info.js';
+import { formatBytes } from '../utils/file-utils.js';
 import logger from '../utils/logger.js';
 
 export async function analyzeFiles(context: ProcessingContext): Promise<void> {
   logger.info('Analyzing files for duplicates and computing statistics...');
 
-  // Analyze duplicates
-  analyzeDuplicates(context);
+  // Analyze duplicates (byte-identical files)
+  const exactGroups = await analyzeDuplicates(context);
 
-  logger.info(`Found ${context.stats.duplicateGroups} duplicate groups`);
+  logger.info(
+    `Found ${context.stats.duplicateGroups} duplicate groups (${formatBytes(context.stats.duplicateBytes)} in extra copies)`
+  );
+
+  // Optionally cluster resized and re-encoded copies
+  let nearClusters: MediaFile[][] = [];
+  if (context.config.processing.detectNearDuplicates) {
+    nearClusters = await analyzeNearDuplicates(context);
+    logger.info(`Found ${context.stats.nearDuplicateClusters} near-duplicate clusters`);
+  }
+
+  // Pick a keeper in each group, unless every copy is kept
+  if (context.config.processing.duplicatePolicy !== 'keep') {
+    resolveDuplicates(context, exactGroups, nearClusters);
+  }
+
+  // Camera folders in the output layout need each file's make and model
+  if (layoutUsesCamera(context.config)) {
+    await readCameraInfo(context);
+  }
 
   // Compute year range (only include valid years: 1990 to current year + 1)
   const currentYear = new Date().getUTCFullYear();
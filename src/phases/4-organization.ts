@@ -1,31 +1,62 @@
 import pLimit from 'p-limit';
 import type { ProcessingContext } from '../types/processing.js';
-import { organizeFile } from '../services/file-organizer.js';
+import { ProcessingStatus } from '../types/media.js';
+import { organizeFile, writeLinkReport } from '../services/file-organizer.js';
+import { writeDuplicateManifest } from '../services/duplicate-resolver.js';
+import { writeAlbumReport } from '../services/album-catalog.js';
+import { ExtractionManifest } from '../services/extraction-manifest.js';
 import logger from '../utils/logger.js';
 
 export async function organizeFiles(context: ProcessingContext): Promise<void> {
   const limit = pLimit(context.config.processing.concurrency);
-  const totalFiles = context.files.size;
+
+  // Files left out by the edited policy are not written anywhere
+  const filesToProcess = Array.from(context.files.values()).filter(
+    (file) => file.status !== ProcessingStatus.SKIPPED
+  );
+  const totalFiles = filesToProcess.length;
 
   logger.info(
     `Starting organization of ${totalFiles} files with concurrency: ${context.config.processing.concurrency}`
   );
 
+  if (context.config.processing.transfer === 'move') {
+    await ExtractionManifest.discard(context.stagingDir);
+    logger.info('Moving files out of staging: the extraction manifest is discarded');
+  }
+
   let processedCount = 0;
 
-  const tasks = Array.from(context.files.values()).map((file) =>
-    limit(async () => {
-      await organizeFile(file, context);
-      processedCount++;
+  // Duplicates linked to their keeper need the keeper's output, so keepers go first
+  const passes = [
+    filesToProcess.filter((file) => !file.duplicateOf),
+    filesToProcess.filter((file) => file.duplicateOf),
+  ];
+  for (const pass of passes) {
+    const tasks = pass.map((file) =>
+      limit(async () => {
+        await organizeFile(file, context);
+        processedCount++;
 
-      if (processedCount % 100 === 0) {
-        const percentage = Math.round((processedCount / totalFiles) * 100);
-        logger.info(`Organized ${processedCount}/${totalFiles} files (${percentage}%)`);
-      }
-    })
-  );
+        if (processedCount % 100 === 0) {
+          const percentage = Math.round((processedCount / totalFiles) * 100);
+          logger.info(`Organized ${processedCount}/${totalFiles} files (${percentage}%)`);
+        }
+      })
+    );
+
+    await Promise.all(tasks);
+  }
 
-  await Promise.all(tasks);
+  if (context.duplicates.length > 0) {
+    await writeDuplicateManifest(context);
+  }
+  if (context.albums.size > 0) {
+    await writeAlbumReport(context);
+  }
+  if (Object.values(context.stats.linkMethods).some((count) => count > 0)) {
+    await writeLinkReport(context);
+  }
 
   logger.info(
     `Organization complete: ${context.stats.processedFiles} succeeded, ${context.stats.failedFiles} failed`
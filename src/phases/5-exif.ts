@@ -2,15 +2,17 @@ import pLimit from 'p-limit';
 import type { ProcessingContext } from '../types/processing.js';
 import { ProcessingStatus } from '../types/media.js';
 import { ExifWriter } from '../services/exif-writer.js';
+import { getLinkedKeeper } from '../services/duplicate-resolver.js';
 import logger from '../utils/logger.js';
 
 export async function writeExifData(context: ProcessingContext): Promise<void> {
   const exifWriter = new ExifWriter();
   const limit = pLimit(3); // Lower concurrency for EXIF operations
 
-  // Only process successfully organized files
+  // Only process successfully organized files; duplicates linked to their keeper
+  // share its file and so its EXIF
   const filesToProcess = Array.from(context.files.values()).filter(
-    (file) => file.status === ProcessingStatus.COMPLETED
+    (file) => file.status === ProcessingStatus.COMPLETED && !getLinkedKeeper(file, context)
   );
 
   const totalFiles = filesToProcess.length;
@@ -23,7 +25,8 @@ export async function writeExifData(context: ProcessingContext): Promise<void> {
   try {
     const tasks = filesToProcess.map((file) =>
       limit(async () => {
-        const result = await exifWriter.writeExif(file, context.config);
+        const albums = file.albumFolders.flatMap((folder) => context.albums.get(folder) ?? []);
+        const result = await exifWriter.writeExif(file, context.config, albums);
 
         processedCount++;
         if (result.success) {
@@ -4,14 +4,18 @@ import type { ProcessingContext } from '../types/processing.js';
 import type { MediaFile } from '../types/media.js';
 import { ProcessingStatus } from '../types/media.js';
 import { extractTimestamp } from '../services/date-extractor.js';
+import { getDateSource } from '../services/live-photos.js';
+import { getLinkedKeeper } from '../services/duplicate-resolver.js';
+import { isSameFile } from '../utils/file-utils.js';
 import logger from '../utils/logger.js';
 
 export async function setFileTimestamps(context: ProcessingContext): Promise<void> {
   const limit = pLimit(context.config.processing.concurrency);
 
-  // Only process successfully organized files
+  // Only process successfully organized files; duplicates linked to their keeper
+  // share its file and so its timestamps
   const filesToProcess = Array.from(context.files.values()).filter(
-    (file) => file.status === ProcessingStatus.COMPLETED
+    (file) => file.status === ProcessingStatus.COMPLETED && !getLinkedKeeper(file, context)
   );
 
   const totalFiles = filesToProcess.length;
@@ -23,7 +27,7 @@ export async function setFileTimestamps(context: ProcessingContext): Promise<voi
 
   const tasks = filesToProcess.map((file) =>
     limit(async () => {
-      const result = await setFileTimestamp(file);
+      const result = await setFileTimestamp(file, context);
       if (result.success) {
         successCount++;
       } else {
@@ -49,9 +53,12 @@ export async function setFileTimestamps(context: ProcessingContext): Promise<voi
   logger.info(`Timestamps complete: ${successCount} succeeded, ${failureCount} failed`);
 }
 
-async function setFileTimestamp(file: MediaFile): Promise<{ success: boolean; error?: string }> {
+async function setFileTimestamp(
+  file: MediaFile,
+  context: ProcessingContext
+): Promise<{ success: boolean; error?: string }> {
   try {
-    const timestamp = await extractTimestamp(file);
+    const timestamp = await extractTimestamp(getDateSource(file, context));
     if (!timestamp) {
       return { success: false, error: 'No valid timestamp found' };
     }
@@ -61,15 +68,18 @@ async function setFileTimestamp(file: MediaFile): Promise<{ success: boolean; er
       await fs.utimes(file.processedPaths.byYear, timestamp, timestamp);
     }
 
-    // Hard links share inodes, so setting on one sets on all
-    // But if it's a copy (not hard link), we need to set both
-    if (file.processedPaths.byAlbum) {
-      const areLinked = await areHardLinked(
-        file.processedPaths.byYear,
-        file.processedPaths.byAlbum
-      );
-      if (!areLinked) {
-        await fs.utimes(file.processedPaths.byAlbum, timestamp, timestamp);
+    // Hard links share inodes and symlinks point at the file, so setting on one
+    // sets on all. But copies and reflinks need their own
+    const linkedPaths = [
+      ...file.processedPaths.byAlbum,
+      ...file.processedPaths.byPeople,
+      file.processedPaths.byFavorites,
+    ];
+    for (const linkedPath of linkedPaths) {
+      if (!linkedPath) continue;
+      const sameFile = await isSameFile(file.processedPaths.byYear, linkedPath);
+      if (!sameFile) {
+        await fs.utimes(linkedPath, timestamp, timestamp);
       }
     }
 
@@ -81,17 +91,3 @@ async function setFileTimestamp(file: MediaFile): Promise<{ success: boolean; er
     return { success: false, error: String(error) };
   }
 }
-
-async function areHardLinked(path1: string | null, path2: string | null): Promise<boolean> {
-  if (!path1 || !path2) {
-    return false;
-  }
-
-  try {
-    const stats1 = await fs.stat(path1);
-    const stats2 = await fs.stat(path2);
-    return stats1.ino === stats2.ino;
-  } catch {
-    return false;
-  }
-}
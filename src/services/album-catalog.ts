@@ -0,0 +1,100 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { Album } from '../types/media.js';
+import type { ProcessingContext } from '../types/processing.js';
+import type { AlbumMetadata } from './metadata-parser.js';
+import { ProcessingStatus } from '../types/media.js';
+import { TAKEOUT_LOCALES } from '../constants.js';
+import { isAlbumFolder, sanitizeFolderName } from '../utils/path-utils.js';
+import logger from '../utils/logger.js';
+
+export const ALBUMS_REPORT_FILENAME = 'albums.json';
+
+const ALBUM_METADATA_FILES = new Set(
+  TAKEOUT_LOCALES.map((locale) => locale.albumMetadataFile.normalize('NFC').toLowerCase())
+);
+
+/**
+ * Check whether a file is an album-level metadata file (metadata.json, localized)
+ */
+export function isAlbumMetadataFile(filePath: string): boolean {
+  return ALBUM_METADATA_FILES.has(path.basename(filePath).normalize('NFC').toLowerCase());
+}
+
+/**
+ * Build the albums of the discovered files, using the title, description and date
+ * from their metadata.json. Each album gets a unique output folder named after its
+ * real title; albums without metadata keep their folder name.
+ */
+export function catalogAlbums(
+  context: ProcessingContext,
+  albumMetadata: Map<string, AlbumMetadata>
+): void {
+  const sourceFolders = new Set<string>();
+  for (const file of context.files.values()) {
+    if (isAlbumFolder(file.sourceFolder, context.locale)) {
+      sourceFolders.add(file.sourceFolder);
+    }
+  }
+
+  // Folder names of albums without a title are taken first, titles must not clash with them
+  const sorted = Array.from(sourceFolders).sort();
+  const usedNames = new Set<string>();
+  for (const sourceFolder of sorted) {
+    if (!albumMetadata.get(sourceFolder)?.title) {
+      usedNames.add(sourceFolder.toLowerCase());
+    }
+  }
+
+  for (const sourceFolder of sorted) {
+    const metadata = albumMetadata.get(sourceFolder);
+    const title = metadata?.title || sourceFolder;
+    let outputFolder = sourceFolder;
+
+    if (metadata?.title) {
+      const candidates = [sanitizeFolderName(metadata.title), sourceFolder];
+      outputFolder =
+        candidates.find((name) => name && !usedNames.has(name.toLowerCase())) ?? sourceFolder;
+      usedNames.add(outputFolder.toLowerCase());
+    }
+
+    const album: Album = {
+      sourceFolder,
+      title,
+      description: metadata?.description ?? '',
+      date: metadata?.date ?? null,
+      outputFolder,
+    };
+    context.albums.set(sourceFolder, album);
+
+    if (outputFolder !== sourceFolder) {
+      logger.debug('Album folder renamed to its title', { sourceFolder, outputFolder });
+    }
+  }
+}
+
+/**
+ * Write every album to the report in logDir: its title, description and date from
+ * metadata.json, its output folder and how many files were organized into it.
+ * Returns the path written.
+ */
+export async function writeAlbumReport(context: ProcessingContext): Promise<string> {
+  const reportPath = path.join(context.config.logging.logDir, ALBUMS_REPORT_FILENAME);
+  const files = Array.from(context.files.values()).filter(
+    (file) => file.status === ProcessingStatus.COMPLETED
+  );
+
+  const albums = Array.from(context.albums.values(), (album) => ({
+    title: album.title,
+    description: album.description,
+    date: album.date?.toISOString() ?? null,
+    sourceFolder: album.sourceFolder,
+    outputFolder: album.outputFolder,
+    files: files.filter((file) => file.albumFolders.includes(album.sourceFolder)).length,
+  }));
+
+  await fs.outputJson(reportPath, { albums }, { spaces: 2 });
+
+  logger.info('Wrote album report', { path: reportPath, albums: albums.length });
+  return reportPath;
+}
@@ -0,0 +1,64 @@
+import { ExifTool } from 'exiftool-vendored';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import pLimit from 'p-limit';
+import type { Config, ProcessingContext } from '../types/processing.js';
+import { ProcessingStatus } from '../types/media.js';
+import { withLocalFile } from './local-file.js';
+import { listTemplateTokens } from './path-template.js';
+import logger from '../utils/logger.js';
+
+/**
+ * Whether the output folders or file names use {camera.make} or {camera.model}
+ */
+export function layoutUsesCamera(config: Config): boolean {
+  const { pathTemplate, albumPathTemplate, filenameTemplate } = config.output;
+  return [pathTemplate, albumPathTemplate, filenameTemplate].some((template) =>
+    listTemplateTokens(template).some((token) => token.startsWith('camera.'))
+  );
+}
+
+/**
+ * Read the camera make and model of every file from its EXIF (or QuickTime) tags
+ */
+export async function readCameraInfo(context: ProcessingContext): Promise<void> {
+  const files = Array.from(context.files.values()).filter(
+    (file) => file.status !== ProcessingStatus.SKIPPED
+  );
+  logger.info(`Reading camera make and model of ${files.length} files`);
+
+  const exiftool = new ExifTool({ taskTimeoutMillis: 10000 });
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'takeout-camera-'));
+  const limit = pLimit(context.config.processing.concurrency);
+  let found = 0;
+
+  try {
+    await Promise.all(
+      files.map((file) =>
+        limit(async () => {
+          try {
+            const tags = await withLocalFile(file, context, tempDir, (localPath) =>
+              exiftool.read(localPath)
+            );
+            file.camera = {
+              make: tags.Make?.trim() || null,
+              model: tags.Model?.trim() || null,
+            };
+            if (file.camera.make || file.camera.model) found++;
+          } catch (error) {
+            logger.debug('Failed to read camera tags', {
+              file: file.filename,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        })
+      )
+    );
+  } finally {
+    await exiftool.end();
+    await fs.remove(tempDir);
+  }
+
+  logger.info(`Found camera make or model for ${found}/${files.length} files`);
+}
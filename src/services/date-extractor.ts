@@ -1,10 +1,14 @@
-import fs from 'fs-extra';
 import type { MediaFile } from '../types/media.js';
+import type { TakeoutLocale } from '../types/processing.js';
 import { extractPhotoTakenTimestamp, extractCreationTimestamp } from './metadata-parser.js';
-import { DATE_PATTERN, YEAR_FOLDER_PATTERN } from '../constants.js';
+import { DATE_PATTERN, DEFAULT_LOCALE } from '../constants.js';
+import { matchYearFolder } from '../utils/path-utils.js';
 import logger from '../utils/logger.js';
 
-export async function extractYear(file: MediaFile): Promise<number> {
+export async function extractYear(
+  file: MediaFile,
+  locale: TakeoutLocale = DEFAULT_LOCALE
+): Promise<number> {
   // Priority 1: photoTakenTime from metadata
   if (file.metadata) {
     const photoTimestamp = extractPhotoTakenTimestamp(file.metadata);
@@ -35,33 +39,24 @@ export async function extractYear(file: MediaFile): Promise<number> {
     }
   }
 
-  // Priority 4: Extract year from sourceFolder ("Photos from YYYY")
-  const folderMatch = file.sourceFolder.match(YEAR_FOLDER_PATTERN);
-  if (folderMatch) {
-    const year = parseInt(folderMatch[1], 10);
-    if (isValidYear(year)) {
-      logger.debug('Extracted year from source folder', {
-        file: file.filename,
-        folder: file.sourceFolder,
-        year,
-      });
-      return year;
-    }
+  // Priority 4: Extract year from sourceFolder ("Photos from YYYY", localized)
+  const folderYear = matchYearFolder(file.sourceFolder, locale);
+  if (folderYear !== null && isValidYear(folderYear)) {
+    logger.debug('Extracted year from source folder', {
+      file: file.filename,
+      folder: file.sourceFolder,
+      year: folderYear,
+    });
+    return folderYear;
   }
 
-  // Priority 5: File modification time
-  try {
-    const stats = await fs.stat(file.originalPath);
-    const year = stats.mtime.getUTCFullYear();
+  // Priority 5: File modification time, from discovery
+  if (file.modifiedAt) {
+    const year = file.modifiedAt.getUTCFullYear();
     if (isValidYear(year)) {
       logger.debug('Using file mtime for year', { file: file.filename, year });
       return year;
     }
-  } catch (error) {
-    logger.warn('Could not get file stats', {
-      file: file.filename,
-      error: error instanceof Error ? error.message : String(error),
-    });
   }
 
   // Fallback: return -1 to indicate unknown year
@@ -90,13 +85,7 @@ export async function extractTimestamp(file: MediaFile): Promise<Date | null> {
     }
   }
 
-  // Priority 3: File modification time
-  // Use processed path if available (file may have been moved from staging)
-  const filePath = file.processedPaths.byYear || file.originalPath;
-  try {
-    const stats = await fs.stat(filePath);
-    return stats.mtime;
-  } catch {
-    return null;
-  }
+  // Priority 3: File modification time, from discovery: output copies get a new one,
+  // and a file moved out of staging may be in the middle of its move
+  return file.modifiedAt;
 }
@@ -1,39 +1,103 @@
+import fs from 'fs-extra';
+import pLimit from 'p-limit';
 import type { MediaFile } from '../types/media.js';
 import type { ProcessingContext } from '../types/processing.js';
+import { ProcessingStatus } from '../types/media.js';
+import { mergeAppearances } from './photo-identity.js';
+import { hashStream } from '../utils/file-utils.js';
 import logger from '../utils/logger.js';
 
-export function analyzeDuplicates(context: ProcessingContext): Map<string, MediaFile[]> {
-  const duplicateGroups = new Map<string, MediaFile[]>();
-
-  // Group files by base filename (duplicateGroup or filename)
+/**
+ * Find sets of byte-identical files. Files are bucketed by size first, so only
+ * files sharing their size with another file are hashed.
+ * The appearances of one photo in its year folder and albums are merged first,
+ * so only real duplicates are left. Each group is sorted by duplicate index
+ * (original first, then (1), (2), etc.), and its files get the content hash as
+ * their duplicateGroup.
+ */
+export async function analyzeDuplicates(context: ProcessingContext): Promise<MediaFile[][]> {
+  // Files left out by the edited or trashed policy are not written anywhere
+  const bySize = new Map<number, MediaFile[]>();
   for (const file of context.files.values()) {
-    const groupKey = file.duplicateGroup || file.filename;
+    if (file.status === ProcessingStatus.SKIPPED || file.size === 0) continue;
 
-    if (!duplicateGroups.has(groupKey)) {
-      duplicateGroups.set(groupKey, []);
+    const sameSize = bySize.get(file.size);
+    if (sameSize) {
+      sameSize.push(file);
+    } else {
+      bySize.set(file.size, [file]);
     }
+  }
+
+  const candidates = Array.from(bySize.values())
+    .filter((files) => files.length > 1)
+    .flat();
+  logger.info(`Hashing ${candidates.length} files that share their size with another file`);
+
+  const limit = pLimit(context.config.processing.concurrency);
+  await Promise.all(
+    candidates.map((file) =>
+      limit(async () => {
+        try {
+          file.contentHash = await computeContentHash(file, context);
+        } catch (error) {
+          logger.warn('Failed to hash file, skipping duplicate check', {
+            file: file.filename,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      })
+    )
+  );
+
+  // Group in discovery order so groups don't depend on which hash finished first
+  const byHash = new Map<string, MediaFile[]>();
+  for (const file of candidates) {
+    if (!file.contentHash) continue;
 
-    duplicateGroups.get(groupKey)!.push(file);
+    const sameHash = byHash.get(file.contentHash);
+    if (sameHash) {
+      sameHash.push(file);
+    } else {
+      byHash.set(file.contentHash, [file]);
+    }
   }
 
-  // Sort each group by duplicate index and update stats
-  let duplicateGroupCount = 0;
+  const groups: MediaFile[][] = [];
+  for (const [hash, sameHash] of byHash) {
+    if (sameHash.length < 2) continue;
 
-  for (const [groupKey, files] of duplicateGroups) {
-    if (files.length > 1) {
-      // Sort by duplicate index (original first, then (1), (2), etc.)
-      files.sort((a, b) => a.duplicateIndex - b.duplicateIndex);
-      duplicateGroupCount++;
+    const files = mergeAppearances(sameHash, context);
+    if (files.length < 2) continue;
 
-      logger.info('Found duplicate group', {
-        baseFilename: groupKey,
-        count: files.length,
-        files: files.map((f) => f.filename),
-      });
+    files.sort((a, b) => a.duplicateIndex - b.duplicateIndex);
+    for (const file of files) {
+      file.duplicateGroup = hash;
     }
+    groups.push(files);
+
+    context.stats.duplicateGroups++;
+    context.stats.duplicateFiles += files.length - 1;
+    context.stats.duplicateBytes += files[0].size * (files.length - 1);
+
+    logger.info('Found duplicate group', {
+      hash,
+      count: files.length,
+      size: files[0].size,
+      files: files.map((f) => f.originalPath),
+    });
   }
 
-  context.stats.duplicateGroups = duplicateGroupCount;
+  return groups;
+}
 
-  return duplicateGroups;
+export async function computeContentHash(
+  file: MediaFile,
+  context: ProcessingContext
+): Promise<string> {
+  // In stream mode the file only exists inside its ZIP archive
+  if (file.archiveEntry && context.archiveIndex) {
+    return hashStream(await context.archiveIndex.openReadStream(file.originalPath));
+  }
+  return hashStream(fs.createReadStream(file.originalPath));
 }
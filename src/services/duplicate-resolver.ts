@@ -0,0 +1,198 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { MediaFile } from '../types/media.js';
+import type { DuplicateGroup, KeeperCriterion, ProcessingContext } from '../types/processing.js';
+import { ProcessingStatus } from '../types/media.js';
+import { extractPhotoTakenTimestamp } from './metadata-parser.js';
+import { hammingDistance, parsePerceptualHash } from './perceptual-hash.js';
+import { isArchived, isQuarantined } from './photo-flags.js';
+import logger from '../utils/logger.js';
+
+export const DUPLICATES_MANIFEST_FILENAME = 'duplicates.json';
+
+type DuplicateAction = 'kept' | 'skipped' | 'linked' | 'quarantined' | 'failed';
+
+/**
+ * Comparators for each keeper criterion: negative when a makes the better keeper
+ */
+const COMPARATORS: Record<KeeperCriterion, (a: MediaFile, b: MediaFile) => number> = {
+  metadata: (a, b) => Number(b.metadata !== null) - Number(a.metadata !== null),
+  resolution: (a, b) => (b.resolution ?? 0) - (a.resolution ?? 0),
+  date: (a, b) => getTakenTime(a) - getTakenTime(b),
+};
+
+/**
+ * Where a file goes, best first: the library, the separate archive folder, then
+ * the trash quarantine. A keeper outside the library would leave the photo there only.
+ */
+function getPlacementRank(file: MediaFile, context: ProcessingContext): number {
+  if (isQuarantined(file, context)) return 2;
+  if (context.config.output.separateArchived && isArchived(file)) return 1;
+  return 0;
+}
+
+function getTakenTime(file: MediaFile): number {
+  const timestamp = file.metadata ? extractPhotoTakenTimestamp(file.metadata) : null;
+  return timestamp ?? Infinity;
+}
+
+/**
+ * Whether a file is a duplicate moved to the quarantine folder
+ */
+export function isQuarantinedDuplicate(file: MediaFile, context: ProcessingContext): boolean {
+  return file.duplicateOf !== null && context.config.processing.duplicatePolicy === 'quarantine';
+}
+
+/**
+ * Keeper a duplicate is hard-linked to, once the keeper has been organized.
+ * Linked duplicates share the keeper's file, so they take its EXIF data and
+ * timestamps instead of writing their own.
+ */
+export function getLinkedKeeper(file: MediaFile, context: ProcessingContext): MediaFile | null {
+  if (!file.duplicateOf || context.config.processing.duplicatePolicy !== 'link') {
+    return null;
+  }
+  const keeper = context.files.get(file.duplicateOf);
+  return keeper?.status === ProcessingStatus.COMPLETED && keeper.processedPaths.byYear
+    ? keeper
+    : null;
+}
+
+/**
+ * Pick a keeper in each duplicate group and apply the duplicate policy to the
+ * other copies: skipped copies are left out of the output, linked and
+ * quarantined copies point at their keeper through duplicateOf.
+ * With the 'near' scope, near-duplicate clusters are resolved first, and exact
+ * groups only when none of their files was resolved with a cluster.
+ */
+export function resolveDuplicates(
+  context: ProcessingContext,
+  exactGroups: MediaFile[][],
+  nearClusters: MediaFile[][]
+): void {
+  const { duplicatePolicy, duplicateScope } = context.config.processing;
+  const resolved = new Set<MediaFile>();
+
+  if (duplicateScope === 'near') {
+    for (const files of nearClusters) {
+      resolveGroup(context, 'near', files[0].nearDuplicateCluster!, files, resolved);
+    }
+  }
+  for (const files of exactGroups) {
+    if (files.some((file) => resolved.has(file))) continue;
+    resolveGroup(context, 'exact', files[0].duplicateGroup!, files, resolved);
+  }
+
+  logger.info(
+    `Resolved ${context.duplicates.length} duplicate groups: ${context.stats.resolvedDuplicates} copies (policy: ${duplicatePolicy})`
+  );
+}
+
+/**
+ * Resolve one group against its best file. Near-duplicate clusters are chained
+ * (A near B and B near C puts A and C together), so only the files near the
+ * keeper itself become its copies; the rest of the cluster is left alone.
+ */
+function resolveGroup(
+  context: ProcessingContext,
+  kind: DuplicateGroup['kind'],
+  key: string,
+  files: MediaFile[],
+  resolved: Set<MediaFile>
+): void {
+  const { duplicatePolicy, duplicateKeeperPreference, nearDuplicateDistance } =
+    context.config.processing;
+
+  // Array sort is stable: files that tie on every criterion keep the original first
+  const ranked = [...files].sort((a, b) => {
+    const placement = getPlacementRank(a, context) - getPlacementRank(b, context);
+    if (placement !== 0) return placement;
+    for (const criterion of duplicateKeeperPreference) {
+      const order = COMPARATORS[criterion](a, b);
+      if (order !== 0) return order;
+    }
+    return a.duplicateIndex - b.duplicateIndex;
+  });
+  const [keeper, ...others] = ranked;
+  const keeperHash = kind === 'near' ? parsePerceptualHash(keeper.perceptualHash!) : null;
+  const copies = keeperHash
+    ? others.filter(
+        (file) =>
+          hammingDistance(keeperHash, parsePerceptualHash(file.perceptualHash!)) <=
+          nearDuplicateDistance
+      )
+    : others;
+  if (copies.length === 0) return;
+
+  const decidedBy =
+    getPlacementRank(keeper, context) !== getPlacementRank(copies[0], context)
+      ? 'library'
+      : (duplicateKeeperPreference.find(
+          (criterion) => COMPARATORS[criterion](keeper, copies[0]) !== 0
+        ) ?? null);
+
+  for (const copy of copies) {
+    copy.duplicateOf = keeper.id;
+    if (duplicatePolicy === 'skip') {
+      copy.status = ProcessingStatus.SKIPPED;
+    }
+  }
+  resolved.add(keeper);
+  copies.forEach((copy) => resolved.add(copy));
+  context.duplicates.push({ kind, key, keeper, copies, decidedBy });
+  context.stats.resolvedDuplicates += copies.length;
+
+  logger.debug('Resolved duplicate group', {
+    kind,
+    keeper: keeper.originalPath,
+    copies: copies.map((f) => f.originalPath),
+    decidedBy,
+    policy: duplicatePolicy,
+  });
+}
+
+function getAction(copy: MediaFile, context: ProcessingContext): DuplicateAction {
+  if (copy.status === ProcessingStatus.SKIPPED) return 'skipped';
+  if (copy.status === ProcessingStatus.FAILED) return 'failed';
+  if (isQuarantinedDuplicate(copy, context)) return 'quarantined';
+  // A copy whose keeper failed to organize is written on its own
+  return getLinkedKeeper(copy, context) ? 'linked' : 'kept';
+}
+
+/**
+ * Write every duplicate decision to the manifest in logDir: the keeper of each
+ * group, why it was kept, and what happened to each copy. Returns the path written.
+ */
+export async function writeDuplicateManifest(context: ProcessingContext): Promise<string> {
+  const manifestPath = path.join(context.config.logging.logDir, DUPLICATES_MANIFEST_FILENAME);
+  const { duplicatePolicy, duplicateScope, duplicateKeeperPreference } = context.config.processing;
+
+  const groups = context.duplicates.map((group) => ({
+    kind: group.kind,
+    key: group.key,
+    decidedBy: group.decidedBy ?? 'duplicateIndex',
+    keeper: {
+      source: group.keeper.originalPath,
+      output: group.keeper.processedPaths.byYear,
+    },
+    copies: group.copies.map((copy) => ({
+      source: copy.originalPath,
+      action: getAction(copy, context),
+      output: copy.processedPaths.byYear,
+    })),
+  }));
+
+  await fs.outputJson(
+    manifestPath,
+    {
+      policy: duplicatePolicy,
+      scope: duplicateScope,
+      keeperPreference: duplicateKeeperPreference,
+      groups,
+    },
+    { spaces: 2 }
+  );
+
+  logger.info('Wrote duplicate manifest', { path: manifestPath, groups: groups.length });
+  return manifestPath;
+}
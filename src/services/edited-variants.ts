@@ -0,0 +1,108 @@
+import path from 'path';
+import type { MediaFile } from '../types/media.js';
+import type { ProcessingContext } from '../types/processing.js';
+import { ProcessingStatus } from '../types/media.js';
+import { PHOTO_EXTENSIONS, TAKEOUT_LOCALES } from '../constants.js';
+import logger from '../utils/logger.js';
+
+// Edited copies of all locales are recognised: accounts switch languages over time
+const EDITED_SUFFIXES = [...new Set(TAKEOUT_LOCALES.map((locale) => locale.editedSuffix))];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// IMG_1234-edited.jpg, IMG_1234-edited(1).jpg: name in group 1, counter in group 2
+const EDITED_PATTERN = new RegExp(
+  `^(.+?)(?:${EDITED_SUFFIXES.map(escapeRegExp).join('|')})(\\(\\d+\\))?\\.[^.]+$`
+);
+
+/**
+ * Key of an original in its folder, ignoring the extension: an edited HEIC photo
+ * is often exported as a JPEG
+ */
+function originalKey(sourceFolder: string, nameWithoutExtension: string): string {
+  return `${sourceFolder}\0${nameWithoutExtension}`;
+}
+
+/**
+ * Name of the original an edited variant was made from (without extension),
+ * or null if the file is not an edited variant
+ */
+function getEditedOriginalName(file: MediaFile): string | null {
+  // Archives created on macOS may store decomposed accents (-modifié)
+  const filename = path.basename(file.originalPath).normalize('NFC');
+  const match = filename.match(EDITED_PATTERN);
+  return match ? `${match[1]}${match[2] ?? ''}` : null;
+}
+
+/**
+ * Link each edited variant to its original in the same folder. The edited copy has
+ * no sidecar of its own, so it inherits the original's metadata. Depending on the
+ * edited policy, one of the two is then left out of the output.
+ */
+export function linkEditedVariants(context: ProcessingContext): void {
+  const policy = context.config.processing.editedPolicy;
+  const originals = new Map<string, MediaFile[]>();
+  const edited: Array<{ file: MediaFile; originalName: string }> = [];
+
+  for (const file of context.files.values()) {
+    const originalName = getEditedOriginalName(file);
+    if (originalName !== null) {
+      edited.push({ file, originalName });
+      continue;
+    }
+
+    const filename = path.basename(file.originalPath).normalize('NFC');
+    const key = originalKey(file.sourceFolder, path.parse(filename).name);
+    if (!originals.has(key)) {
+      originals.set(key, []);
+    }
+    originals.get(key)!.push(file);
+  }
+
+  for (const { file, originalName } of edited) {
+    const candidates = (originals.get(originalKey(file.sourceFolder, originalName)) ?? []).filter(
+      (candidate) => candidate.editedVersionId === null
+    );
+    if (candidates.length === 0) {
+      logger.debug('No original found for edited file', { file: file.filename });
+      continue;
+    }
+
+    // Prefer the original with the same extension, then a photo for a photo: the
+    // video part of a Live Photo shares the original's name
+    const ext = path.extname(file.originalPath).toLowerCase();
+    const isPhoto = (f: MediaFile) =>
+      PHOTO_EXTENSIONS.includes(path.extname(f.originalPath).toLowerCase());
+    const original =
+      candidates.find((candidate) => path.extname(candidate.originalPath).toLowerCase() === ext) ??
+      candidates.find((candidate) => isPhoto(candidate) === isPhoto(file)) ??
+      candidates[0];
+
+    file.editedFromId = original.id;
+    original.editedVersionId = file.id;
+    if (!file.metadata) {
+      file.metadata = original.metadata;
+    }
+    context.stats.editedVariants++;
+
+    if (policy === 'edited') {
+      original.status = ProcessingStatus.SKIPPED;
+    } else if (policy === 'original') {
+      file.status = ProcessingStatus.SKIPPED;
+    }
+
+    logger.debug('Linked edited variant', { edited: file.filename, original: original.filename });
+  }
+
+  const skipped = Array.from(context.files.values()).filter(
+    (file) => file.status === ProcessingStatus.SKIPPED
+  ).length;
+  context.stats.skippedFiles += skipped;
+
+  logger.info(`Linked ${context.stats.editedVariants} edited variants to their originals`, {
+    policy,
+    skipped,
+  });
+}
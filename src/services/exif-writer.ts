@@ -1,11 +1,50 @@
 import { ExifTool } from 'exiftool-vendored';
+import fs from 'fs-extra';
 import path from 'path';
-import type { MediaFile } from '../types/media.js';
+import type { Album, GoogleMetadata, MediaFile } from '../types/media.js';
 import type { Config } from '../types/processing.js';
-import { extractPhotoTakenTimestamp, extractGeoData } from './metadata-parser.js';
-import { PHOTO_EXTENSIONS } from '../constants.js';
+import { extractPhotoTakenTimestamp, extractGeoData, extractPeople } from './metadata-parser.js';
+import { PHOTO_EXTENSIONS, RAW_EXTENSIONS } from '../constants.js';
+import { isSameFile } from '../utils/file-utils.js';
 import logger from '../utils/logger.js';
 
+// EXIF and IPTC tags with no XMP counterpart of the same name: XMP keeps the
+// description in Description, keywords in Subject and the GPS sign in the coordinate
+const XMP_UNSUPPORTED_TAGS = ['ImageDescription', 'Keywords', 'GPSLatitudeRef', 'GPSLongitudeRef'];
+
+// Video containers ExifTool can write XMP into (QuickTime-based)
+const XMP_VIDEO_EXTENSIONS = ['.mp4', '.mov', '.m4v', '.3gp', '.3g2'];
+
+/**
+ * Whether the original name of a renamed file can be kept in its XMP: photos
+ * (RAW files in their sidecar) and QuickTime-based videos
+ */
+export function canPreserveFileName(file: MediaFile): boolean {
+  const ext = file.extension.toLowerCase();
+  return PHOTO_EXTENSIONS.includes(ext) || XMP_VIDEO_EXTENSIONS.includes(ext);
+}
+
+function getSidecarPath(filePath: string): string {
+  const ext = path.extname(filePath);
+  return `${filePath.slice(0, filePath.length - ext.length)}.xmp`;
+}
+
+/**
+ * Copies of the year file that don't share it (reflinks and full copies) were
+ * made before its tags were written: clone them again from the tagged file, which
+ * shares its blocks again where the file system supports reflinks
+ */
+async function refreshCopies(file: MediaFile): Promise<void> {
+  const { byYear, byAlbum, byPeople, byFavorites } = file.processedPaths;
+  for (const copyPath of [...byAlbum, ...byPeople, byFavorites]) {
+    if (!byYear || !copyPath || (await isSameFile(byYear, copyPath))) continue;
+
+    const tempPath = `${copyPath}.tmp`;
+    await fs.copyFile(byYear, tempPath, fs.constants.COPYFILE_FICLONE);
+    await fs.rename(tempPath, copyPath);
+  }
+}
+
 export class ExifWriter {
   private exiftool: ExifTool;
 
@@ -13,77 +52,57 @@ export class ExifWriter {
     this.exiftool = new ExifTool({ taskTimeoutMillis: 10000 });
   }
 
-  async writeExif(file: MediaFile, config: Config): Promise<{ success: boolean; error?: string }> {
-    // Only write EXIF to photo files (not videos)
+  async writeExif(
+    file: MediaFile,
+    config: Config,
+    albums: Album[] = []
+  ): Promise<{ success: boolean; error?: string }> {
+    if (!file.processedPaths.byYear) {
+      logger.debug('No processed path for file', { file: file.filename });
+      return { success: true };
+    }
+
+    const targetPath = file.processedPaths.byYear;
+    const originalName = path.basename(file.originalPath);
+    const renamed = path.basename(targetPath) !== originalName;
+
+    // Sidecar metadata is only written to photos; renamed videos get their original name
     const isPhoto = PHOTO_EXTENSIONS.includes(file.extension.toLowerCase());
-    if (!isPhoto) {
+    if (!isPhoto && !renamed) {
       logger.debug('Skipping EXIF for video file', { file: file.filename });
       return { success: true }; // Not an error, just skip
     }
 
-    if (!file.metadata || !file.processedPaths.byYear) {
-      logger.debug('No metadata or processed path for file', { file: file.filename });
+    if (!file.metadata && !renamed) {
+      logger.debug('No metadata for file', { file: file.filename });
       return { success: true }; // Skip if no metadata
     }
 
-    const targetPath = file.processedPaths.byYear;
     const tags: Record<string, string | number | string[]> = {};
 
     try {
-      // Write DateTimeOriginal from photoTakenTime
-      if (config.exif.writeDateTimeOriginal) {
-        const timestamp = extractPhotoTakenTimestamp(file.metadata);
-        if (timestamp) {
-          const date = new Date(timestamp * 1000);
-          // ExifTool expects format: "YYYY:MM:DD HH:MM:SS" (colons in date, not dashes)
-          const exifDate = date
-            .toISOString()
-            .replace('T', ' ')
-            .replace(/\.\d{3}Z$/, '')
-            .replace(/-/g, ':');
-
-          tags.DateTimeOriginal = exifDate;
-          tags.CreateDate = exifDate;
-        }
-      }
-
-      // Write GPS coordinates
-      if (config.exif.writeGPS) {
-        const geoData = extractGeoData(file.metadata);
-        if (geoData) {
-          tags.GPSLatitude = geoData.latitude;
-          tags.GPSLongitude = geoData.longitude;
-          if (geoData.altitude !== 0) {
-            tags.GPSAltitude = geoData.altitude;
-          }
-          // Set GPS reference directions
-          tags.GPSLatitudeRef = geoData.latitude >= 0 ? 'N' : 'S';
-          tags.GPSLongitudeRef = geoData.longitude >= 0 ? 'E' : 'W';
-        }
-      }
-
-      // Write description and title
-      if (config.exif.writeDescription) {
-        if (file.metadata.description) {
-          tags.ImageDescription = file.metadata.description;
-          tags.Description = file.metadata.description;
-        }
-        if (file.metadata.title && file.metadata.title !== file.filename) {
-          tags.Title = file.metadata.title;
-        }
+      if (file.metadata && isPhoto) {
+        Object.assign(tags, this.getMetadataTags(file, file.metadata, config, albums));
       }
 
-      // Write album name as keywords
-      if (config.exif.writeKeywords && file.processedPaths.byAlbum) {
-        const albumName = path.basename(path.dirname(file.processedPaths.byAlbum));
-        tags.Keywords = albumName;
-        tags.Subject = albumName;
+      // Keep the name the file had in the Takeout, so renamed files can be traced back
+      if (renamed) {
+        tags['XMP-xmpMM:PreservedFileName'] = originalName;
       }
 
       // Write tags if we have any
       if (Object.keys(tags).length > 0) {
-        const exifArgs = config.exif.preserveOriginalFile ? [] : ['-overwrite_original'];
-        await this.exiftool.write(targetPath, tags, exifArgs);
+        // Rewrite in place: replacing the file would break its hard links to album copies.
+        // -P keeps the modification time, which dates files without a sidecar in phase 6.
+        const exifArgs = config.exif.preserveOriginalFile
+          ? ['-P']
+          : ['-P', '-overwrite_original_in_place'];
+        if (RAW_EXTENSIONS.includes(file.extension.toLowerCase())) {
+          await this.writeSidecars(file, tags, exifArgs);
+        } else {
+          await this.exiftool.write(targetPath, tags, exifArgs);
+          await refreshCopies(file);
+        }
         logger.debug('Wrote EXIF data', {
           file: file.filename,
           tags: Object.keys(tags),
@@ -101,6 +120,117 @@ export class ExifWriter {
     }
   }
 
+  /**
+   * Tags taken from the Google Photos sidecar
+   */
+  private getMetadataTags(
+    file: MediaFile,
+    metadata: GoogleMetadata,
+    config: Config,
+    albums: Album[]
+  ): Record<string, string | number | string[]> {
+    const tags: Record<string, string | number | string[]> = {};
+
+    // Write DateTimeOriginal from photoTakenTime
+    if (config.exif.writeDateTimeOriginal) {
+      const timestamp = extractPhotoTakenTimestamp(metadata);
+      if (timestamp) {
+        const date = new Date(timestamp * 1000);
+        // ExifTool expects format: "YYYY:MM:DD HH:MM:SS" (colons in date, not dashes)
+        const exifDate = date
+          .toISOString()
+          .replace('T', ' ')
+          .replace(/\.\d{3}Z$/, '')
+          .replace(/-/g, ':');
+
+        tags.DateTimeOriginal = exifDate;
+        tags.CreateDate = exifDate;
+      }
+    }
+
+    // Write GPS coordinates
+    if (config.exif.writeGPS) {
+      const geoData = extractGeoData(metadata);
+      if (geoData) {
+        tags.GPSLatitude = geoData.latitude;
+        tags.GPSLongitude = geoData.longitude;
+        if (geoData.altitude !== 0) {
+          tags.GPSAltitude = geoData.altitude;
+        }
+        // Set GPS reference directions
+        tags.GPSLatitudeRef = geoData.latitude >= 0 ? 'N' : 'S';
+        tags.GPSLongitudeRef = geoData.longitude >= 0 ? 'E' : 'W';
+      }
+    }
+
+    // Write description and title
+    if (config.exif.writeDescription) {
+      if (metadata.description) {
+        tags.ImageDescription = metadata.description;
+        tags.Description = metadata.description;
+      }
+      if (metadata.title && metadata.title !== file.filename) {
+        tags.Title = metadata.title;
+      }
+    }
+
+    // Write album titles and people as keywords (the folder name may be truncated by Google)
+    const keywords: string[] = [];
+    const inAlbums = file.processedPaths.byAlbum.length > 0;
+    if (config.exif.writeKeywords && inAlbums) {
+      keywords.push(...albums.map((album) => album.title));
+    }
+
+    // The album description tells what the photos were taken at
+    const albumDescriptions = albums.map((album) => album.description).filter(Boolean);
+    if (config.exif.writeDescription && inAlbums && albumDescriptions.length > 0) {
+      tags['XMP-iptcExt:Event'] = albumDescriptions.join('; ');
+    }
+
+    // Write people tags
+    if (config.exif.writePeople) {
+      const people = extractPeople(metadata);
+      if (people.length > 0) {
+        tags['XMP-iptcExt:PersonInImage'] = people;
+        if (config.exif.writeKeywords) {
+          keywords.push(...people);
+        }
+      }
+    }
+
+    if (keywords.length > 0) {
+      tags.Keywords = keywords;
+      tags.Subject = keywords;
+    }
+
+    // Favorites get the top star rating
+    if (config.exif.writeRating && metadata.favorited) {
+      tags.Rating = 5;
+    }
+
+    return tags;
+  }
+
+  /**
+   * Write the tags of a RAW file to an XMP sidecar next to each of its copies
+   * (IMG_1234.CR2 -> IMG_1234.xmp), leaving the proprietary RAW bytes untouched
+   */
+  private async writeSidecars(
+    file: MediaFile,
+    tags: Record<string, string | number | string[]>,
+    exifArgs: string[]
+  ): Promise<void> {
+    const { byYear, byAlbum, byPeople, byFavorites } = file.processedPaths;
+    const xmpTags = Object.fromEntries(
+      Object.entries(tags).filter(([tag]) => !XMP_UNSUPPORTED_TAGS.includes(tag))
+    );
+
+    for (const copyPath of [byYear, ...byAlbum, ...byPeople, byFavorites]) {
+      if (!copyPath) continue;
+      await this.exiftool.write(getSidecarPath(copyPath), xmpTags, exifArgs);
+    }
+  }
+
   async close(): Promise<void> {
     await this.exiftool.end();
   }
@@ -0,0 +1,145 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { z } from 'zod';
+import logger from '../utils/logger.js';
+
+export const MANIFEST_FILENAME = '.extraction-manifest.json';
+
+export interface ArchiveFingerprint {
+  size: number;
+  mtimeMs: number;
+  directoryHash: string;
+  // Size of the extracted content, so a re-run can estimate disk space without listing it
+  uncompressedSize: number;
+}
+
+const ManifestRecordSchema = z.object({
+  size: z.number(),
+  mtimeMs: z.number(),
+  directoryHash: z.string(),
+  // Missing from manifests written before it was recorded
+  uncompressedSize: z.number().optional(),
+  status: z.enum(['extracting', 'completed']),
+  updatedAt: z.string(),
+});
+
+const ManifestSchema = z.object({
+  version: z.literal(1),
+  archives: z.record(z.string(), ManifestRecordSchema),
+});
+
+type ManifestRecord = z.infer<typeof ManifestRecordSchema>;
+
+/**
+ * Tracks which archives have been fully extracted into the staging directory,
+ * so re-runs can skip them. Archives are keyed by file name.
+ */
+export class ExtractionManifest {
+  private manifestPath: string;
+  private archives: Record<string, ManifestRecord>;
+  // Archives are extracted concurrently: chain writes so they never overlap
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  private constructor(manifestPath: string, archives: Record<string, ManifestRecord>) {
+    this.manifestPath = manifestPath;
+    this.archives = archives;
+  }
+
+  static async load(stagingDir: string): Promise<ExtractionManifest> {
+    const manifestPath = path.join(stagingDir, MANIFEST_FILENAME);
+
+    if (await fs.pathExists(manifestPath)) {
+      try {
+        const result = ManifestSchema.safeParse(await fs.readJson(manifestPath));
+        if (result.success) {
+          return new ExtractionManifest(manifestPath, result.data.archives);
+        }
+        logger.warn('Ignoring invalid extraction manifest', { path: manifestPath });
+      } catch (error) {
+        logger.warn('Failed to read extraction manifest', {
+          path: manifestPath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return new ExtractionManifest(manifestPath, {});
+  }
+
+  /**
+   * Forget every extraction, once files start moving out of staging: a re-run
+   * must extract the archives again to find them
+   */
+  static async discard(stagingDir: string): Promise<void> {
+    await fs.remove(path.join(stagingDir, MANIFEST_FILENAME));
+  }
+
+  /**
+   * Check whether an archive was fully extracted and has not changed since
+   */
+  isExtracted(archivePath: string, fingerprint: ArchiveFingerprint): boolean {
+    return (
+      this.isFileUnchanged(archivePath, fingerprint) &&
+      this.archives[path.basename(archivePath)].directoryHash === fingerprint.directoryHash
+    );
+  }
+
+  /**
+   * Check whether an archive was fully extracted and its file still has the same
+   * size and modification time, without looking inside it
+   */
+  isFileUnchanged(
+    archivePath: string,
+    stats: Pick<ArchiveFingerprint, 'size' | 'mtimeMs'>
+  ): boolean {
+    const record = this.archives[path.basename(archivePath)];
+    return (
+      record?.status === 'completed' &&
+      record.size === stats.size &&
+      record.mtimeMs === stats.mtimeMs
+    );
+  }
+
+  /**
+   * Size of the extracted content of an archive, when recorded
+   */
+  getUncompressedSize(archivePath: string): number | null {
+    return this.archives[path.basename(archivePath)]?.uncompressedSize ?? null;
+  }
+
+  /**
+   * Check whether a previous run stopped in the middle of extracting an archive
+   */
+  isPartiallyExtracted(archivePath: string): boolean {
+    return this.archives[path.basename(archivePath)]?.status === 'extracting';
+  }
+
+  async markExtracting(archivePath: string, fingerprint: ArchiveFingerprint): Promise<void> {
+    await this.update(archivePath, fingerprint, 'extracting');
+  }
+
+  async markCompleted(archivePath: string, fingerprint: ArchiveFingerprint): Promise<void> {
+    await this.update(archivePath, fingerprint, 'completed');
+  }
+
+  private async update(
+    archivePath: string,
+    fingerprint: ArchiveFingerprint,
+    status: ManifestRecord['status']
+  ): Promise<void> {
+    this.archives[path.basename(archivePath)] = {
+      ...fingerprint,
+      status,
+      updatedAt: new Date().toISOString(),
+    };
+
+    // Write to a temp file and rename, so a crash never leaves a truncated manifest
+    const tempPath = `${this.manifestPath}.tmp`;
+    const write = async () => {
+      await fs.outputJson(tempPath, { version: 1, archives: this.archives }, { spaces: 2 });
+      await fs.rename(tempPath, this.manifestPath);
+    };
+    this.pendingWrite = this.pendingWrite.then(write, write);
+    await this.pendingWrite;
+  }
+}
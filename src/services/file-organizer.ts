@@ -1,24 +1,48 @@
 import fs from 'fs-extra';
+import { open } from 'fs/promises';
 import path from 'path';
+import { pipeline } from 'stream/promises';
 import type { MediaFile } from '../types/media.js';
-import type { ProcessingContext } from '../types/processing.js';
-import { extractYear } from './date-extractor.js';
-import { isAlbumFolder } from '../utils/path-utils.js';
-import { createHardLinkOrCopy, MAX_UNIQUE_FILENAME_ATTEMPTS } from '../utils/file-utils.js';
+import type { LinkMode, ProcessingContext } from '../types/processing.js';
+import { extractTimestamp, extractYear } from './date-extractor.js';
+import { getDateSource } from './live-photos.js';
+import { extractPeople } from './metadata-parser.js';
+import { isArchived, isFavorite, isQuarantined } from './photo-flags.js';
+import { getLinkedKeeper, isQuarantinedDuplicate } from './duplicate-resolver.js';
+import { computeContentHash } from './duplicate-detector.js';
+import { canPreserveFileName } from './exif-writer.js';
+import { escapeCsvField } from './inventory.js';
+import {
+  listTemplateTokens,
+  MONTH_NAMES,
+  renderFilenameTemplate,
+  renderPathTemplate,
+  type TemplateValues,
+} from './path-template.js';
+import { sanitizeFolderName } from '../utils/path-utils.js';
+import { createLinkOrCopy, MAX_UNIQUE_FILENAME_ATTEMPTS } from '../utils/file-utils.js';
 import logger from '../utils/logger.js';
 import { ProcessingStatus as Status } from '../types/media.js';
 
+export const LINK_REPORT_FILENAME = 'links.csv';
+
 export async function organizeFile(file: MediaFile, context: ProcessingContext): Promise<void> {
   try {
-    // Determine year for this file
-    const year = await extractYear(file);
-    const yearFolder = year === -1 ? context.config.output.unknownYearFolder : year.toString();
+    // Determine year for this file (Live Photo videos follow their still)
+    const year = await extractYear(getDateSource(file, context), context.locale);
+    const templateValues = await getTemplateValues(file, context, year);
+    const { pathTemplate, albumPathTemplate, unknownYearFolder } = context.config.output;
+    const yearFolder = renderPathTemplate(pathTemplate, templateValues, unknownYearFolder);
 
-    // Create by-year structure
-    const yearDir = path.join(context.byYearDir, yearFolder);
+    // Create by-year structure (quarantined and archived photos get their own tree)
+    const quarantined = isQuarantined(file, context) || isQuarantinedDuplicate(file, context);
+    const yearDir = path.join(getYearRoot(file, context), yearFolder);
     await fs.ensureDir(yearDir);
+    const outputName = await getOutputFilename(file, context, templateValues);
 
-    const yearResult = await copyToUniquePath(file.originalPath, yearDir, file.filename);
+    const { linkMode, fallbackToCopy } = context.config.processing;
+    const keeper = getLinkedKeeper(file, context);
+    const yearResult = await writeYearEntry(file, context, keeper, yearDir, outputName);
     file.processedPaths.byYear = yearResult.target;
 
     logger.debug('Organized file by year', {
@@ -27,24 +51,91 @@ export async function organizeFile(file: MediaFile, context: ProcessingContext):
       target: yearResult.target,
     });
 
-    // Create by-album structure if applicable
-    if (isAlbumFolder(file.sourceFolder)) {
-      const albumDir = path.join(context.byAlbumDir, file.sourceFolder);
+    // The entries of a linked duplicate share its keeper's file too, since it gets
+    // no EXIF data of its own
+    const viewLinkMode: LinkMode = keeper ? 'hardlink' : linkMode;
+
+    // Photos from the bin and quarantined duplicates stay out of the album, person
+    // and favorites views
+    if (quarantined) {
+      file.status = Status.COMPLETED;
+      context.stats.processedFiles++;
+      return;
+    }
+
+    // Create by-album structure: one entry per album the photo appears in
+    for (const sourceFolder of file.albumFolders) {
+      // Named after the real album title where metadata.json has one
+      const albumFolder = context.albums.get(sourceFolder)?.outputFolder ?? sourceFolder;
+      const albumDir = path.join(
+        context.byAlbumDir,
+        renderPathTemplate(
+          albumPathTemplate,
+          { ...templateValues, album: albumFolder },
+          unknownYearFolder
+        )
+      );
       await fs.ensureDir(albumDir);
 
-      const albumResult = await copyToUniquePath(yearResult.target, albumDir, file.filename, {
-        useHardLinks: context.config.processing.useHardLinks,
-        fallbackToCopy: context.config.processing.fallbackToCopy,
+      const albumResult = await copyToUniquePath(yearResult.target, albumDir, outputName, {
+        linkMode: viewLinkMode,
+        fallbackToCopy,
       });
-      file.processedPaths.byAlbum = albumResult.target;
+      file.processedPaths.byAlbum.push(albumResult.target);
+      countLink(context, file, albumResult, viewLinkMode);
       logger.debug('Organized file by album', {
         file: file.filename,
-        album: file.sourceFolder,
+        album: albumFolder,
         target: albumResult.target,
         method: albumResult.method,
       });
     }
 
+    // Create by-person structure: one folder per tagged person
+    if (context.config.output.createPeopleFolders && file.metadata) {
+      for (const name of extractPeople(file.metadata)) {
+        const personFolder = sanitizeFolderName(name);
+        if (!personFolder) continue;
+
+        const personDir = path.join(context.byPeopleDir, personFolder);
+        await fs.ensureDir(personDir);
+
+        const personResult = await copyToUniquePath(yearResult.target, personDir, outputName, {
+          linkMode: viewLinkMode,
+          fallbackToCopy,
+        });
+        file.processedPaths.byPeople.push(personResult.target);
+        countLink(context, file, personResult, viewLinkMode);
+        logger.debug('Organized file by person', {
+          file: file.filename,
+          person: personFolder,
+          target: personResult.target,
+          method: personResult.method,
+        });
+      }
+    }
+
+    if (context.config.output.createFavoritesFolder && isFavorite(file)) {
+      await fs.ensureDir(context.favoritesDir);
+
+      const favoriteResult = await copyToUniquePath(
+        yearResult.target,
+        context.favoritesDir,
+        outputName,
+        {
+          linkMode: viewLinkMode,
+          fallbackToCopy,
+        }
+      );
+      file.processedPaths.byFavorites = favoriteResult.target;
+      countLink(context, file, favoriteResult, viewLinkMode);
+      logger.debug('Added file to favorites', {
+        file: file.filename,
+        target: favoriteResult.target,
+        method: favoriteResult.method,
+      });
+    }
+
     file.status = Status.COMPLETED;
     context.stats.processedFiles++;
   } catch (error) {
@@ -58,13 +149,169 @@ export async function organizeFile(file: MediaFile, context: ProcessingContext):
   }
 }
 
+/**
+ * Create the year folder entry of a file. A duplicate under the link policy becomes
+ * a hard link to its keeper's file, and in stream mode the file only exists inside
+ * its ZIP archive. Staged files are moved in move mode; other year copies are
+ * clones in reflink mode (links into staging would not outlive it).
+ */
+async function writeYearEntry(
+  file: MediaFile,
+  context: ProcessingContext,
+  keeper: MediaFile | null,
+  yearDir: string,
+  filename: string
+): Promise<{ target: string }> {
+  const { linkMode, fallbackToCopy, transfer } = context.config.processing;
+
+  if (keeper) {
+    const result = await copyToUniquePath(keeper.processedPaths.byYear!, yearDir, filename, {
+      linkMode: 'hardlink',
+      fallbackToCopy,
+    });
+    countLink(context, file, result, 'hardlink');
+    return result;
+  }
+  if (file.archiveEntry) {
+    return streamEntryToUniquePath(file, context, yearDir, filename);
+  }
+  if (transfer === 'move') {
+    const result = await moveToUniquePath(file.originalPath, yearDir, filename);
+    context.stats.movedFiles++;
+    return result;
+  }
+
+  const result = await copyToUniquePath(file.originalPath, yearDir, filename, {
+    linkMode: linkMode === 'reflink' ? 'reflink' : 'copy',
+    fallbackToCopy: true,
+  });
+  if (linkMode === 'reflink') {
+    countLink(context, file, result, linkMode);
+  }
+  return result;
+}
+
+/**
+ * Record how an output entry was linked, and count whether it fell back to a copy
+ */
+function countLink(
+  context: ProcessingContext,
+  file: MediaFile,
+  result: { target: string; method: LinkMode },
+  requested: LinkMode
+): void {
+  file.links.push({ target: result.target, method: result.method, requested });
+  context.stats.linkMethods[result.method]++;
+  if (result.method !== requested) {
+    context.stats.linkFallbacks++;
+  }
+}
+
+/**
+ * Write the link method of every output entry to the link report in logDir,
+ * one row per entry: the source file, the entry, how it was written and how it
+ * was meant to be. Returns the path written.
+ */
+export async function writeLinkReport(context: ProcessingContext): Promise<string> {
+  const reportPath = path.join(context.config.logging.logDir, LINK_REPORT_FILENAME);
+  const rows: string[] = [];
+  for (const file of context.files.values()) {
+    for (const link of file.links) {
+      rows.push(
+        [file.originalPath, link.target, link.method, link.requested].map(escapeCsvField).join(',')
+      );
+    }
+  }
+
+  await fs.outputFile(reportPath, ['file,entry,method,requested', ...rows].join('\n') + '\n');
+
+  logger.info('Wrote link report', { path: reportPath, entries: rows.length });
+  return reportPath;
+}
+
+/**
+ * Values of the output path template tokens for a file. Month, day and time come
+ * from its timestamp, and only when that falls in the year the file is filed under.
+ */
+async function getTemplateValues(
+  file: MediaFile,
+  context: ProcessingContext,
+  year: number
+): Promise<TemplateValues> {
+  const timestamp = year === -1 ? null : await extractTimestamp(getDateSource(file, context));
+  const date = timestamp?.getUTCFullYear() === year ? timestamp : null;
+
+  return {
+    year: year === -1 ? null : year,
+    month: date ? date.getUTCMonth() + 1 : null,
+    monthName: date ? MONTH_NAMES[date.getUTCMonth()] : null,
+    day: date ? date.getUTCDate() : null,
+    hour: date ? date.getUTCHours() : null,
+    minute: date ? date.getUTCMinutes() : null,
+    second: date ? date.getUTCSeconds() : null,
+    'camera.make': file.camera?.make ?? null,
+    'camera.model': file.camera?.model ?? null,
+  };
+}
+
+/**
+ * Name of the file in the output: its name, or output.filenameTemplate filled in
+ * followed by its extension
+ */
+async function getOutputFilename(
+  file: MediaFile,
+  context: ProcessingContext,
+  values: TemplateValues
+): Promise<string> {
+  const { filenameTemplate, unknownYearFolder } = context.config.output;
+  // A file is only renamed when its original name can be kept in its XMP
+  if (!filenameTemplate || !canPreserveFileName(file)) return file.filename;
+
+  // Duplicate detection only hashes files that share their size with another file
+  if (!file.contentHash && listTemplateTokens(filenameTemplate).includes('hash')) {
+    file.contentHash = await computeContentHash(file, context);
+  }
+
+  const { name, ext } = path.parse(file.filename);
+  const rendered = renderFilenameTemplate(
+    filenameTemplate,
+    {
+      ...values,
+      name,
+      title: file.metadata?.title ? path.parse(file.metadata.title).name : null,
+      counter: file.duplicateIndex,
+      hash: file.contentHash?.slice(0, 8) ?? null,
+    },
+    unknownYearFolder
+  );
+  return rendered ? `${rendered}${ext}` : file.filename;
+}
+
+/**
+ * Folder holding the year folders of a file: trashed photos and duplicates kept
+ * by a quarantine policy and (optionally) archived photos are set apart from the
+ * main library
+ */
+function getYearRoot(file: MediaFile, context: ProcessingContext): string {
+  if (isQuarantined(file, context)) {
+    return context.trashDir;
+  }
+  if (isQuarantinedDuplicate(file, context)) {
+    return context.duplicatesDir;
+  }
+  if (context.config.output.separateArchived && isArchived(file)) {
+    return context.archiveDir;
+  }
+  return context.byYearDir;
+}
+
 async function copyToUniquePath(
   source: string,
   targetDir: string,
   filename: string,
-  options: { useHardLinks?: boolean; fallbackToCopy?: boolean } = {}
-): Promise<{ target: string; method: 'hardlink' | 'copy' }> {
-  const { useHardLinks = false, fallbackToCopy = true } = options;
+  options: { linkMode?: LinkMode; fallbackToCopy?: boolean } = {}
+): Promise<{ target: string; method: LinkMode }> {
+  const { linkMode = 'copy', fallbackToCopy = true } = options;
   const ext = path.extname(filename);
   const base = path.basename(filename, ext);
 
@@ -73,8 +320,8 @@ async function copyToUniquePath(
     const target = path.join(targetDir, `${base}${suffix}${ext}`);
 
     try {
-      if (useHardLinks) {
-        const result = await createHardLinkOrCopy(source, target, fallbackToCopy);
+      if (linkMode !== 'copy') {
+        const result = await createLinkOrCopy(source, target, linkMode, fallbackToCopy);
         if (result.success) {
           return { target, method: result.method };
         }
@@ -82,7 +329,7 @@ async function copyToUniquePath(
         if (result.errorCode === 'EEXIST' || result.errorMessage?.includes('already exists')) {
           continue;
         }
-        throw new Error(result.errorMessage || 'Failed to create hard link or copy');
+        throw new Error(result.errorMessage || `Failed to create ${linkMode} or copy`);
       } else {
         // Skip if source and target are the same file
         const resolvedSource = path.resolve(source);
@@ -102,7 +349,7 @@ async function copyToUniquePath(
       const err = error as NodeJS.ErrnoException;
       // Handle case where source and destination resolve to the same file
       if (err?.message?.includes('Source and destination must not be the same')) {
-        return { target, method: useHardLinks ? 'hardlink' : 'copy' };
+        return { target, method: linkMode };
       }
       // Check both code and message for robustness against race conditions
       if (err?.code === 'EEXIST' || err?.message?.includes('already exists')) {
@@ -116,3 +363,100 @@ async function copyToUniquePath(
     `Could not generate unique filename for ${filename} after ${MAX_UNIQUE_FILENAME_ATTEMPTS} attempts`
   );
 }
+
+/**
+ * Move a staged file into targetDir under a free name. The name is reserved
+ * first and the file renamed over it, so a clashing file is never replaced;
+ * across file systems the file is copied and the staged file deleted.
+ */
+async function moveToUniquePath(
+  source: string,
+  targetDir: string,
+  filename: string
+): Promise<{ target: string; method: 'move' }> {
+  const ext = path.extname(filename);
+  const base = path.basename(filename, ext);
+
+  for (let attempt = 0; attempt < MAX_UNIQUE_FILENAME_ATTEMPTS; attempt++) {
+    const suffix = attempt === 0 ? '' : `_${attempt + 1}`;
+    const target = path.join(targetDir, `${base}${suffix}${ext}`);
+
+    try {
+      const handle = await open(target, 'wx');
+      await handle.close();
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException)?.code === 'EEXIST') {
+        continue;
+      }
+      throw error;
+    }
+
+    try {
+      await fs.rename(source, target);
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'EXDEV') {
+        await fs.remove(target);
+        throw error;
+      }
+      await fs.copy(source, target, { overwrite: true, preserveTimestamps: true });
+      await fs.remove(source);
+    }
+    return { target, method: 'move' };
+  }
+
+  throw new Error(
+    `Could not generate unique filename for ${filename} after ${MAX_UNIQUE_FILENAME_ATTEMPTS} attempts`
+  );
+}
+
+async function streamEntryToUniquePath(
+  file: MediaFile,
+  context: ProcessingContext,
+  targetDir: string,
+  filename: string
+): Promise<{ target: string; method: 'stream' }> {
+  const { archiveIndex } = context;
+  if (!file.archiveEntry || !archiveIndex) {
+    throw new Error(`Archive entry not available for ${file.filename}`);
+  }
+
+  const modifiedAt = file.archiveEntry.modifiedAt;
+  const ext = path.extname(filename);
+  const base = path.basename(filename, ext);
+
+  for (let attempt = 0; attempt < MAX_UNIQUE_FILENAME_ATTEMPTS; attempt++) {
+    const suffix = attempt === 0 ? '' : `_${attempt + 1}`;
+    const target = path.join(targetDir, `${base}${suffix}${ext}`);
+
+    // Reserve the name first so concurrent writers never share a target
+    let handle;
+    try {
+      handle = await open(target, 'wx');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException)?.code === 'EEXIST') {
+        continue;
+      }
+      throw error;
+    }
+
+    try {
+      await pipeline(
+        await archiveIndex.openReadStream(file.originalPath),
+        handle.createWriteStream()
+      );
+    } catch (error) {
+      await fs.remove(target);
+      throw error;
+    } finally {
+      await handle.close().catch(() => undefined);
+    }
+
+    // Keep the archive timestamp, like a regular extraction would
+    await fs.utimes(target, modifiedAt, modifiedAt);
+    return { target, method: 'stream' };
+  }
+
+  throw new Error(
+    `Could not generate unique filename for ${filename} after ${MAX_UNIQUE_FILENAME_ATTEMPTS} attempts`
+  );
+}
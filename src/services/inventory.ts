@@ -0,0 +1,83 @@
+import fs from 'fs-extra';
+import path from 'path';
+import logger from '../utils/logger.js';
+
+export const INVENTORY_CSV_FILENAME = 'inventory.csv';
+export const INVENTORY_JSON_FILENAME = 'inventory.json';
+
+export type InventoryCategory = 'media-without-metadata' | 'orphaned-sidecar' | 'unsupported';
+
+export interface InventoryEntry {
+  // Folder relative to the Google Photos folder ('.' for files at its root)
+  folder: string;
+  file: string;
+  category: InventoryCategory;
+}
+
+const CATEGORIES: InventoryCategory[] = [
+  'media-without-metadata',
+  'orphaned-sidecar',
+  'unsupported',
+];
+
+/**
+ * Files discovery could not fully use: media without a JSON file, JSON files
+ * without media, and files that are not supported media
+ */
+export class Inventory {
+  private entries: InventoryEntry[] = [];
+
+  add(filePath: string, googlePhotosDir: string, category: InventoryCategory): void {
+    this.entries.push({
+      folder: path.relative(googlePhotosDir, path.dirname(filePath)) || '.',
+      file: path.basename(filePath),
+      category,
+    });
+  }
+
+  count(category: InventoryCategory): number {
+    return this.entries.filter((entry) => entry.category === category).length;
+  }
+
+  /**
+   * Write the inventory as CSV (one row per file) and as JSON (grouped by folder)
+   * into logDir. Returns the paths written.
+   */
+  async write(logDir: string): Promise<{ csv: string; json: string }> {
+    const entries = [...this.entries].sort(
+      (a, b) =>
+        a.folder.localeCompare(b.folder) ||
+        a.category.localeCompare(b.category) ||
+        a.file.localeCompare(b.file)
+    );
+
+    const csvPath = path.join(logDir, INVENTORY_CSV_FILENAME);
+    const rows = entries.map((entry) =>
+      [entry.folder, entry.file, entry.category].map(escapeCsvField).join(',')
+    );
+    await fs.outputFile(csvPath, ['folder,file,category', ...rows].join('\n') + '\n');
+
+    const folders: Record<string, Record<InventoryCategory, string[]>> = {};
+    for (const entry of entries) {
+      folders[entry.folder] ??= {
+        'media-without-metadata': [],
+        'orphaned-sidecar': [],
+        unsupported: [],
+      };
+      folders[entry.folder][entry.category].push(entry.file);
+    }
+
+    const jsonPath = path.join(logDir, INVENTORY_JSON_FILENAME);
+    const counts = Object.fromEntries(
+      CATEGORIES.map((category) => [category, this.count(category)])
+    );
+    await fs.outputJson(jsonPath, { counts, folders }, { spaces: 2 });
+
+    logger.info('Wrote discovery inventory', { csv: csvPath, json: jsonPath, ...counts });
+    return { csv: csvPath, json: jsonPath };
+  }
+}
+
+export function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,69 @@
+import path from 'path';
+import type { MediaFile } from '../types/media.js';
+import type { ProcessingContext } from '../types/processing.js';
+import { LIVE_PHOTO_STILL_EXTENSIONS, LIVE_PHOTO_VIDEO_EXTENSIONS } from '../constants.js';
+import logger from '../utils/logger.js';
+
+function pairKey(file: MediaFile): string {
+  const filename = path.basename(file.originalPath).normalize('NFC');
+  return `${file.sourceFolder}\0${path.parse(filename).name}`;
+}
+
+function getOriginalExtension(file: MediaFile): string {
+  return path.extname(file.originalPath).toLowerCase();
+}
+
+/**
+ * Pair the still and video parts of Live Photos (IMG_0001.HEIC + IMG_0001.MOV) in
+ * the same folder. Only the still has a sidecar, so the video inherits its metadata.
+ */
+export function pairLivePhotos(context: ProcessingContext): void {
+  const stills = new Map<string, MediaFile[]>();
+
+  for (const file of context.files.values()) {
+    if (LIVE_PHOTO_STILL_EXTENSIONS.includes(getOriginalExtension(file))) {
+      const key = pairKey(file);
+      if (!stills.has(key)) {
+        stills.set(key, []);
+      }
+      stills.get(key)!.push(file);
+    }
+  }
+
+  for (const video of context.files.values()) {
+    if (!LIVE_PHOTO_VIDEO_EXTENSIONS.includes(getOriginalExtension(video))) continue;
+
+    const candidates = (stills.get(pairKey(video)) ?? []).filter(
+      (still) => still.livePhotoVideoId === null
+    );
+    if (candidates.length === 0) continue;
+
+    // Prefer the still that has metadata, then HEIC over JPEG
+    const rank = (still: MediaFile) =>
+      (still.metadata ? 0 : LIVE_PHOTO_STILL_EXTENSIONS.length) +
+      LIVE_PHOTO_STILL_EXTENSIONS.indexOf(getOriginalExtension(still));
+    const still = candidates.sort((a, b) => rank(a) - rank(b))[0];
+
+    video.livePhotoStillId = still.id;
+    still.livePhotoVideoId = video.id;
+    if (!video.metadata) {
+      video.metadata = still.metadata;
+    }
+    context.stats.livePhotoPairs++;
+
+    logger.debug('Paired Live Photo', { still: still.filename, video: video.filename });
+  }
+
+  logger.info(`Paired ${context.stats.livePhotoPairs} Live Photos`);
+}
+
+/**
+ * File whose date places a file in the output: the video part of a Live Photo
+ * is dated like its still, so both land in the same year folder
+ */
+export function getDateSource(file: MediaFile, context: ProcessingContext): MediaFile {
+  if (file.livePhotoStillId) {
+    return context.files.get(file.livePhotoStillId) ?? file;
+  }
+  return file;
+}
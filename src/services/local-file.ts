@@ -0,0 +1,31 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import type { MediaFile } from '../types/media.js';
+import type { ProcessingContext } from '../types/processing.js';
+
+/**
+ * Run a function on a path of the file on disk. In stream mode the file only
+ * exists inside its ZIP archive, so it is copied to a temporary file in tempDir first.
+ */
+export async function withLocalFile<T>(
+  file: MediaFile,
+  context: ProcessingContext,
+  tempDir: string,
+  fn: (localPath: string) => Promise<T>
+): Promise<T> {
+  if (!file.archiveEntry || !context.archiveIndex) {
+    return fn(file.originalPath);
+  }
+
+  const tempPath = path.join(tempDir, `${file.id}${file.extension}`);
+  try {
+    await pipeline(
+      await context.archiveIndex.openReadStream(file.originalPath),
+      fs.createWriteStream(tempPath)
+    );
+    return await fn(tempPath);
+  } finally {
+    await fs.remove(tempPath);
+  }
+}
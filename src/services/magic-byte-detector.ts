@@ -1,4 +1,6 @@
 import fs from 'fs/promises';
+import type { ArchiveFormat } from '../types/processing.js';
+import { RAW_EXTENSIONS } from '../constants.js';
 import logger from '../utils/logger.js';
 
 // Magic byte signatures for common image formats
@@ -10,15 +12,63 @@ const SIGNATURES: Record<string, number[][]> = {
     [0x47, 0x49, 0x46, 0x38, 0x39, 0x61], // GIF89a
   ],
   webp: [[0x52, 0x49, 0x46, 0x46]], // RIFF, need to also check WEBP at offset 8
+  avi: [[0x52, 0x49, 0x46, 0x46]], // RIFF, need to also check 'AVI ' at offset 8
   tiff: [
     [0x49, 0x49, 0x2a, 0x00], // Little-endian (II)
     [0x4d, 0x4d, 0x00, 0x2a], // Big-endian (MM)
   ],
   bmp: [[0x42, 0x4d]], // BM
+  orf: [
+    [0x49, 0x49, 0x52, 0x4f], // IIRO
+    [0x49, 0x49, 0x52, 0x53], // IIRS
+    [0x4d, 0x4d, 0x4f, 0x52], // MMOR
+  ],
+  rw2: [[0x49, 0x49, 0x55, 0x00]], // IIU
+  raf: [[0x46, 0x55, 0x4a, 0x49, 0x46, 0x49, 0x4c, 0x4d, 0x43, 0x43, 0x44, 0x2d, 0x52, 0x41, 0x57]], // FUJIFILMCCD-RAW
+  matroska: [[0x1a, 0x45, 0xdf, 0xa3]], // EBML header, DocType tells Matroska from WebM
+  jxl: [
+    [0xff, 0x0a], // Bare codestream
+    [0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a], // Container
+  ],
+};
+
+// Magic byte signatures for Takeout archive formats
+const ARCHIVE_SIGNATURES: Record<ArchiveFormat, number[][]> = {
+  zip: [
+    [0x50, 0x4b, 0x03, 0x04], // Local file header
+    [0x50, 0x4b, 0x05, 0x06], // End of central directory (empty archive)
+  ],
+  tgz: [[0x1f, 0x8b]], // gzip (tar inside)
 };
 
-// HEIC/HEIF uses ftyp box - need special handling
-const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'mif1', 'msf1'];
+// Number of header bytes needed to identify every supported format
+// (TIFF-based RAW files are told apart by fields of their first IFD)
+export const MAGIC_BYTES_LENGTH = 1024;
+
+// ISO-BMFF files (HEIC, AVIF, MP4, QuickTime, 3GP) start with an ftyp box whose
+// major brand names the format
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'];
+const AVIF_BRANDS = ['avif', 'avis'];
+// Generic image brands, used by both HEIC and AVIF: the compatible brands decide
+const IMAGE_BRANDS = ['mif1', 'msf1'];
+const MP4_BRANDS = [
+  'isom',
+  'iso2',
+  'iso4',
+  'iso5',
+  'iso6',
+  'mp41',
+  'mp42',
+  'avc1',
+  'dash',
+  'mmp4',
+  'msnv',
+  'm4v ',
+  'f4v ',
+];
+const QUICKTIME_BRANDS = ['qt  '];
+const CR3_BRANDS = ['crx '];
+const THREE_GP_BRAND_PREFIXES = ['3gp', '3g2', '3ge', '3gg', '3gs'];
 
 /**
  * Read the first N bytes of a file
@@ -45,12 +95,96 @@ function matchesSignature(buffer: Buffer, signature: number[], offset: number =
   return true;
 }
 
+/**
+ * Identify an ISO-BMFF file from its ftyp box
+ * Structure: [4 bytes size][4 bytes 'ftyp'][4 bytes major brand][4 bytes minor version]
+ * [4 bytes per compatible brand, up to the box size]
+ */
+function detectFtypBrand(buffer: Buffer): string | null {
+  const brand = buffer.toString('ascii', 8, 12).toLowerCase();
+
+  if (HEIC_BRANDS.includes(brand)) return 'heic';
+  if (AVIF_BRANDS.includes(brand)) return 'avif';
+  if (MP4_BRANDS.includes(brand)) return 'mp4';
+  if (QUICKTIME_BRANDS.includes(brand)) return 'mov';
+  if (CR3_BRANDS.includes(brand)) return 'cr3';
+  if (THREE_GP_BRAND_PREFIXES.some((prefix) => brand.startsWith(prefix))) return '3gp';
+
+  if (IMAGE_BRANDS.includes(brand)) {
+    const boxEnd = Math.min(buffer.readUInt32BE(0), buffer.length);
+    for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+      if (AVIF_BRANDS.includes(buffer.toString('ascii', offset, offset + 4).toLowerCase())) {
+        return 'avif';
+      }
+    }
+    return 'heic';
+  }
+
+  return null;
+}
+
+// TIFF tags of the first IFD that identify a RAW format
+const TIFF_TAG_MAKE = 0x010f;
+const TIFF_TAG_DNG_VERSION = 0xc612;
+const TIFF_TYPE_ASCII = 2;
+
+// Camera makers whose TIFF-based RAW format has no marker of its own
+const RAW_MAKERS: Array<{ make: string; type: string }> = [
+  { make: 'NIKON', type: 'nef' },
+  { make: 'SONY', type: 'arw' },
+];
+
+/**
+ * Tell TIFF-based RAW formats apart from plain TIFF images.
+ * CR2 has a marker after the TIFF header, DNG a DNGVersion tag, NEF and ARW
+ * are recognised by the Make tag of the first IFD.
+ */
+function detectTiffVariant(buffer: Buffer): string {
+  // CR2: 'CR' and major version 2 right after the 8-byte TIFF header
+  if (buffer.toString('ascii', 8, 10) === 'CR' && buffer[10] === 0x02) {
+    return 'cr2';
+  }
+
+  const littleEndian = buffer[0] === 0x49;
+  const readUInt16 = (offset: number) =>
+    littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset);
+  const readUInt32 = (offset: number) =>
+    littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+
+  const ifdOffset = readUInt32(4);
+  if (ifdOffset + 2 > buffer.length) return 'tiff';
+
+  let make: string | null = null;
+  const entryCount = readUInt16(ifdOffset);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > buffer.length) break;
+
+    const tag = readUInt16(entry);
+    if (tag === TIFF_TAG_DNG_VERSION) {
+      return 'dng';
+    }
+    if (tag === TIFF_TAG_MAKE && readUInt16(entry + 2) === TIFF_TYPE_ASCII) {
+      // Values of up to 4 bytes are stored in the entry itself
+      const count = readUInt32(entry + 4);
+      const start = count <= 4 ? entry + 8 : readUInt32(entry + 8);
+      if (start + count <= buffer.length) {
+        make = buffer.toString('ascii', start, start + count).replace(/\0+$/, '');
+      }
+    }
+  }
+
+  const maker = make ? RAW_MAKERS.find((m) => make.toUpperCase().startsWith(m.make)) : undefined;
+  return maker?.type ?? 'tiff';
+}
+
 /**
  * Detect the actual file type based on magic bytes
+ * Reads the file header unless it was already provided (e.g. from an archive entry)
  */
-async function detectFileType(filePath: string): Promise<string | null> {
+async function detectFileType(filePath: string, header?: Buffer): Promise<string | null> {
   try {
-    const buffer = await readMagicBytes(filePath, 24);
+    const buffer = header ?? (await readMagicBytes(filePath, MAGIC_BYTES_LENGTH));
 
     // Check JPEG
     if (matchesSignature(buffer, SIGNATURES.jpeg[0])) {
@@ -77,24 +211,47 @@ async function detectFileType(filePath: string): Promise<string | null> {
       return 'webp';
     }
 
+    // Check AVI (RIFF at 0 + 'AVI ' at 8)
+    if (matchesSignature(buffer, SIGNATURES.avi[0]) && buffer.toString('ascii', 8, 12) === 'AVI ') {
+      return 'avi';
+    }
+
     // Check BMP
     if (matchesSignature(buffer, SIGNATURES.bmp[0])) {
       return 'bmp';
     }
 
-    // Check HEIC/HEIF (ftyp box)
-    // Structure: [4 bytes size][4 bytes 'ftyp'][4 bytes brand]
+    // Check HEIC/AVIF/MP4/QuickTime/3GP (ftyp box)
     if (buffer.toString('ascii', 4, 8) === 'ftyp') {
-      const brand = buffer.toString('ascii', 8, 12).toLowerCase();
-      if (HEIC_BRANDS.includes(brand)) {
-        return 'heic';
+      return detectFtypBrand(buffer);
+    }
+
+    // Check Matroska/WebM (EBML header)
+    if (matchesSignature(buffer, SIGNATURES.matroska[0])) {
+      const header = buffer.toString('latin1');
+      if (header.includes('webm')) return 'webm';
+      if (header.includes('matroska')) return 'mkv';
+      return null;
+    }
+
+    // Check JPEG XL (codestream or container)
+    for (const sig of SIGNATURES.jxl) {
+      if (matchesSignature(buffer, sig)) {
+        return 'jxl';
+      }
+    }
+
+    // Check RAW formats with a header of their own (ORF, RW2, RAF)
+    for (const type of ['orf', 'rw2', 'raf']) {
+      if (SIGNATURES[type].some((sig) => matchesSignature(buffer, sig))) {
+        return type;
       }
     }
 
     // Check TIFF (also used by DNG, CR2, NEF, ARW)
     for (const sig of SIGNATURES.tiff) {
       if (matchesSignature(buffer, sig)) {
-        return 'tiff';
+        return detectTiffVariant(buffer);
       }
     }
 
@@ -114,9 +271,10 @@ async function detectFileType(filePath: string): Promise<string | null> {
  */
 export async function getCorrectExtension(
   filePath: string,
-  declaredExtension: string
+  declaredExtension: string,
+  header?: Buffer
 ): Promise<{ extension: string; corrected: boolean }> {
-  const detectedType = await detectFileType(filePath);
+  const detectedType = await detectFileType(filePath, header);
 
   if (!detectedType) {
     // Could not detect, keep original
@@ -133,7 +291,23 @@ export async function getCorrectExtension(
     webp: ['.webp'],
     bmp: ['.bmp'],
     heic: ['.heic', '.heif'],
-    tiff: ['.tiff', '.tif', '.dng', '.cr2', '.nef', '.arw', '.raw'], // RAW formats use TIFF structure
+    avif: ['.avif'],
+    jxl: ['.jxl'],
+    mp4: ['.mp4', '.m4v'],
+    mov: ['.mov'],
+    '3gp': ['.3gp', '.3g2'],
+    avi: ['.avi'],
+    mkv: ['.mkv'],
+    webm: ['.webm'],
+    tiff: ['.tiff', '.tif'],
+    dng: ['.dng'],
+    cr2: ['.cr2'],
+    cr3: ['.cr3'],
+    nef: ['.nef'],
+    arw: ['.arw'],
+    orf: ['.orf'],
+    rw2: ['.rw2'],
+    raf: ['.raf'],
   };
 
   const validExtensions = typeToExtensions[detectedType] || [];
@@ -144,13 +318,18 @@ export async function getCorrectExtension(
   }
 
   // Special case: TIFF-based formats
-  // If detected as TIFF and declared as a RAW format, keep the RAW extension
-  // (DNG, CR2, NEF, ARW are all TIFF-based)
-  if (detectedType === 'tiff') {
-    const rawExtensions = ['.dng', '.cr2', '.nef', '.arw', '.raw'];
-    if (rawExtensions.includes(declaredLower)) {
-      return { extension: declaredExtension, corrected: false };
-    }
+  // A RAW file whose first IFD does not name its maker (or lies past the header
+  // read) looks like a plain TIFF: keep the declared RAW extension
+  if (detectedType === 'tiff' && RAW_EXTENSIONS.includes(declaredLower)) {
+    return { extension: declaredExtension, corrected: false };
+  }
+  // NEF and ARW are only recognised by their maker, which plain TIFFs from the same
+  // cameras and scanners carry too: a declared TIFF stays a TIFF
+  if (
+    RAW_MAKERS.some((maker) => maker.type === detectedType) &&
+    typeToExtensions.tiff.includes(declaredLower)
+  ) {
+    return { extension: declaredExtension, corrected: false };
   }
 
   // Need to correct the extension
@@ -169,3 +348,24 @@ export async function getCorrectExtension(
 
   return { extension: finalExtension, corrected: true };
 }
+
+/**
+ * Detect whether an archive is a ZIP or a gzip-compressed tar based on its magic bytes
+ */
+export async function detectArchiveFormat(filePath: string): Promise<ArchiveFormat | null> {
+  try {
+    const buffer = await readMagicBytes(filePath, 4);
+    for (const [format, signatures] of Object.entries(ARCHIVE_SIGNATURES)) {
+      if (signatures.some((sig) => matchesSignature(buffer, sig))) {
+        return format as ArchiveFormat;
+      }
+    }
+    return null;
+  } catch (error) {
+    logger.debug('Failed to read archive magic bytes', {
+      filePath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
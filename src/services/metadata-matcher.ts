@@ -1,32 +1,239 @@
-import fs from 'fs-extra';
 import path from 'path';
+import type { GoogleMetadata } from '../types/media.js';
+import { DUPLICATE_PATTERN } from '../constants.js';
 import logger from '../utils/logger.js';
 
 const METADATA_SUFFIXES = ['.json', '.supplemental-metadata.json', '.supplemental-me.json'];
+const SUPPLEMENTAL_SUFFIX = '.supplemental-metadata';
+// Google caps sidecar file names at 46 to 51 characters by cutting the media name short
+const MIN_TRUNCATED_SIDECAR_LENGTH = 46;
+// Duplicate counter moved behind the media extension: IMG(1).jpg -> IMG.jpg(1).json
+const SIDECAR_COUNTER_PATTERN = /^(.+)\((\d+)\)$/;
 
-export async function findMetadataFile(mediaPath: string): Promise<string | null> {
-  // Try different metadata filename patterns
-  const candidates = [
-    `${mediaPath}.json`,
-    `${mediaPath}.supplemental-metadata.json`,
-    `${mediaPath}.supplemental-me.json`,
-    path.join(
-      path.dirname(mediaPath),
-      path.basename(mediaPath, path.extname(mediaPath)) + '.supplemental-metadata.json'
-    ),
-  ];
+/**
+ * How well a sidecar name matches a media file name, best first
+ */
+enum MatchRank {
+  // IMG_1234.jpg.json, IMG_1234.jpg.supplemental-metadata.json
+  Exact = 0,
+  // IMG_1234.jpg.supplemental-me.json
+  TruncatedSuffix = 1,
+  // IMG_1234.json
+  NoExtension = 2,
+  // very_long_name_2019_0.json for very_long_name_2019_01_01.jpg
+  TruncatedName = 3,
+}
+
+interface SidecarName {
+  path: string;
+  // File name without `.json` and duplicate counter
+  stem: string;
+  counter: number;
+  nameLength: number;
+}
+
+interface Candidate {
+  sidecar: SidecarName;
+  // Media name the sidecar was matched against (without the duplicate counter)
+  mediaName: string;
+  rank: MatchRank;
+}
+
+function parseSidecarName(filePath: string): SidecarName {
+  const name = path.basename(filePath);
+  const stem = name.slice(0, -'.json'.length);
+  const match = stem.match(SIDECAR_COUNTER_PATTERN);
+
+  return match
+    ? { path: filePath, stem: match[1], counter: parseInt(match[2], 10), nameLength: name.length }
+    : { path: filePath, stem, counter: 0, nameLength: name.length };
+}
+
+function rankSidecar(mediaName: string, sidecar: SidecarName): MatchRank | null {
+  const { stem } = sidecar;
+  const withSuffix = mediaName + SUPPLEMENTAL_SUFFIX;
+
+  if (stem === mediaName || stem === withSuffix) {
+    return MatchRank.Exact;
+  }
+
+  if (stem.length > mediaName.length + 1 && withSuffix.startsWith(stem)) {
+    return MatchRank.TruncatedSuffix;
+  }
 
-  for (const candidate of candidates) {
-    if (await fs.pathExists(candidate)) {
-      logger.debug('Found metadata file', { media: mediaPath, metadata: candidate });
-      return candidate;
+  const extension = path.extname(mediaName);
+  if (extension) {
+    const withoutExtension = mediaName.slice(0, -extension.length);
+    if (stem === withoutExtension || stem === withoutExtension + SUPPLEMENTAL_SUFFIX) {
+      return MatchRank.NoExtension;
     }
   }
 
-  logger.debug('No metadata file found', { media: mediaPath });
+  if (
+    sidecar.nameLength >= MIN_TRUNCATED_SIDECAR_LENGTH &&
+    stem.length < mediaName.length &&
+    mediaName.startsWith(stem)
+  ) {
+    return MatchRank.TruncatedName;
+  }
+
   return null;
 }
 
+interface SidecarFolder {
+  sidecars: SidecarName[];
+  // Sidecars by stem and counter, for exact matches without scanning the folder
+  byStem: Map<string, SidecarName[]>;
+}
+
+function stemKey(stem: string, counter: number): string {
+  return `${stem}\0${counter}`;
+}
+
+/**
+ * Index of the sidecar JSON files of every folder, used to match media files with
+ * sidecars whose names Google truncated or renumbered.
+ * Folders are identified by a key (their path relative to the Takeout folder), so
+ * folders from several Takeout parts are merged.
+ */
+export class MetadataIndex {
+  private folders = new Map<string, SidecarFolder>();
+  // Sidecars matched to a media file so far
+  private matched = new Set<string>();
+  // Each sidecar is parsed once, even when it is read to break a tie first
+  private loaded = new Map<string, Promise<GoogleMetadata | null>>();
+  private loadMetadata: (filePath: string) => Promise<GoogleMetadata | null>;
+
+  constructor(loadMetadata: (filePath: string) => Promise<GoogleMetadata | null>) {
+    this.loadMetadata = loadMetadata;
+  }
+
+  /**
+   * Parse a sidecar, reusing the result of an earlier (or concurrent) read
+   */
+  load(filePath: string): Promise<GoogleMetadata | null> {
+    let metadata = this.loaded.get(filePath);
+    if (!metadata) {
+      metadata = this.loadMetadata(filePath);
+      this.loaded.set(filePath, metadata);
+    }
+    return metadata;
+  }
+
+  add(filePath: string, folderKey: string): void {
+    let folder = this.folders.get(folderKey);
+    if (!folder) {
+      folder = { sidecars: [], byStem: new Map() };
+      this.folders.set(folderKey, folder);
+    }
+
+    const sidecar = parseSidecarName(filePath);
+    folder.sidecars.push(sidecar);
+
+    const key = stemKey(sidecar.stem, sidecar.counter);
+    const sameStem = folder.byStem.get(key);
+    if (sameStem) {
+      sameStem.push(sidecar);
+    } else {
+      folder.byStem.set(key, [sidecar]);
+    }
+  }
+
+  /**
+   * Find the sidecar of a media file among the sidecars of its folder.
+   * Returns the path of the best ranked match, using the sidecar's title field
+   * to choose between equally ranked matches.
+   */
+  async findMetadataFile(mediaPath: string, folderKey: string): Promise<string | null> {
+    const folder = this.folders.get(folderKey);
+    const filename = path.basename(mediaPath);
+
+    // IMG(1).jpg can pair with IMG(1).jpg.json or with IMG.jpg(1).json
+    const variants = [{ mediaName: filename, counter: 0 }];
+    const duplicate = filename.match(DUPLICATE_PATTERN);
+    if (duplicate) {
+      const [, name, index, ext] = duplicate;
+      variants.push({ mediaName: `${name}${ext}`, counter: parseInt(index, 10) });
+    }
+
+    const candidates: Candidate[] = [];
+    if (folder) {
+      for (const { mediaName, counter } of variants) {
+        for (const stem of [mediaName, mediaName + SUPPLEMENTAL_SUFFIX]) {
+          for (const sidecar of folder.byStem.get(stemKey(stem, counter)) ?? []) {
+            candidates.push({ sidecar, mediaName, rank: MatchRank.Exact });
+          }
+        }
+      }
+
+      // Only scan the whole folder when no sidecar has the exact name
+      if (candidates.length === 0) {
+        for (const sidecar of folder.sidecars) {
+          for (const { mediaName, counter } of variants) {
+            if (sidecar.counter !== counter) continue;
+            const rank = rankSidecar(mediaName, sidecar);
+            if (rank !== null) {
+              candidates.push({ sidecar, mediaName, rank });
+            }
+          }
+        }
+      }
+    }
+
+    if (candidates.length === 0) {
+      logger.debug('No metadata file found', { media: mediaPath });
+      return null;
+    }
+
+    // Best rank first, then the longest (least truncated) name
+    candidates.sort(
+      (a, b) =>
+        a.rank - b.rank ||
+        b.sidecar.stem.length - a.sidecar.stem.length ||
+        a.sidecar.path.localeCompare(b.sidecar.path)
+    );
+    const [best] = candidates;
+    const tied = candidates.filter(
+      (c) => c.rank === best.rank && c.sidecar.stem.length === best.sidecar.stem.length
+    );
+
+    const match = tied.length > 1 ? await this.breakTie(tied) : best;
+    logger.debug('Found metadata file', {
+      media: mediaPath,
+      metadata: match.sidecar.path,
+      rank: MatchRank[match.rank],
+    });
+    this.matched.add(match.sidecar.path);
+    return match.sidecar.path;
+  }
+
+  /**
+   * Sidecars no media file has been matched with
+   */
+  listUnmatched(): string[] {
+    return Array.from(this.folders.values())
+      .flatMap((folder) => folder.sidecars.map((sidecar) => sidecar.path))
+      .filter((filePath) => !this.matched.has(filePath));
+  }
+
+  /**
+   * Choose the sidecar whose title is the media name
+   */
+  private async breakTie(tied: Candidate[]): Promise<Candidate> {
+    for (const candidate of tied) {
+      const metadata = await this.load(candidate.sidecar.path);
+      if (metadata?.title === candidate.mediaName) {
+        return candidate;
+      }
+    }
+
+    logger.debug('Ambiguous metadata match, using first candidate', {
+      candidates: tied.map((c) => c.sidecar.path),
+    });
+    return tied[0];
+  }
+}
+
 export function isMetadataFile(filename: string): boolean {
   return METADATA_SUFFIXES.some((suffix) => filename.endsWith(suffix));
 }
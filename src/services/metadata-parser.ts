@@ -1,6 +1,6 @@
 import fs from 'fs-extra';
 import { z } from 'zod';
-import type { GoogleMetadata } from '../types/media.js';
+import type { Album, GoogleMetadata } from '../types/media.js';
 import logger from '../utils/logger.js';
 
 // Zod schemas for runtime validation
@@ -28,11 +28,41 @@ const GoogleMetadataSchema = z.object({
   creationTime: TimestampSchema,
   geoData: GeoDataSchema,
   geoDataExif: GeoDataSchema,
+  people: z.array(z.object({ name: z.string() })).optional(),
+  favorited: z.boolean().optional(),
+  archived: z.boolean().optional(),
+  trashed: z.boolean().optional(),
 });
 
+// Album metadata.json, either flat or wrapped in albumData (older exports)
+const AlbumDataSchema = z.object({
+  title: z.string().default(''),
+  description: z.string().default(''),
+  date: z.object({ timestamp: z.string() }).optional(),
+});
+
+const AlbumMetadataSchema = z.union([z.object({ albumData: AlbumDataSchema }), AlbumDataSchema]);
+
+export type AlbumMetadata = Pick<Album, 'title' | 'description' | 'date'>;
+
 export async function parseMetadataFile(filePath: string): Promise<GoogleMetadata | null> {
   try {
     const content = await fs.readFile(filePath, 'utf-8');
+    return parseMetadataContent(content, filePath);
+  } catch (error) {
+    logger.error('Failed to read metadata file', {
+      file: filePath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Parse sidecar JSON that was already read (e.g. from an archive entry)
+ */
+export function parseMetadataContent(content: string, filePath: string): GoogleMetadata | null {
+  try {
     const data = JSON.parse(content);
 
     // Validate with zod schema
@@ -55,6 +85,37 @@ export async function parseMetadataFile(filePath: string): Promise<GoogleMetadat
   }
 }
 
+/**
+ * Parse an album-level metadata.json that was already read
+ */
+export function parseAlbumMetadataContent(content: string, filePath: string): AlbumMetadata | null {
+  try {
+    const result = AlbumMetadataSchema.safeParse(JSON.parse(content));
+    if (!result.success) {
+      logger.warn('Album metadata validation failed', {
+        file: filePath,
+        errors: result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`),
+      });
+      return null;
+    }
+
+    const data = 'albumData' in result.data ? result.data.albumData : result.data;
+    const timestamp = data.date ? parseInt(data.date.timestamp, 10) : NaN;
+
+    return {
+      title: data.title.trim(),
+      description: data.description,
+      date: !isNaN(timestamp) && isValidTimestamp(timestamp) ? new Date(timestamp * 1000) : null,
+    };
+  } catch (error) {
+    logger.error('Failed to parse album metadata file', {
+      file: filePath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
 // Timestamp bounds: Jan 1, 1990 to 1 year from now (Unix seconds)
 const MIN_TIMESTAMP = 631152000; // 1990-01-01
 const getMaxTimestamp = () => Math.floor(Date.now() / 1000) + 31536000; // Now + 1 year
@@ -121,3 +182,11 @@ export function extractGeoData(metadata: GoogleMetadata): {
 
   return null;
 }
+
+/**
+ * Names of the people tagged in a photo, without blanks and duplicates
+ */
+export function extractPeople(metadata: GoogleMetadata): string[] {
+  const names = (metadata.people ?? []).map((person) => person.name.trim()).filter(Boolean);
+  return [...new Set(names)];
+}
@@ -0,0 +1,156 @@
+import { ExifTool } from 'exiftool-vendored';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import pLimit from 'p-limit';
+import type { MediaFile } from '../types/media.js';
+import type { ProcessingContext } from '../types/processing.js';
+import { ProcessingStatus } from '../types/media.js';
+import { PHOTO_EXTENSIONS } from '../constants.js';
+import { withLocalFile } from './local-file.js';
+import { computePerceptualHash, findNearPairs } from './perceptual-hash.js';
+import logger from '../utils/logger.js';
+
+const JPEG_EXTENSIONS = ['.jpg', '.jpeg'];
+
+// Embedded JPEG images to hash, full-size previews first: the 160px EXIF thumbnail
+// is often letterboxed (its bars are trimmed before hashing)
+const PREVIEW_TAGS = ['PreviewImage', 'JpgFromRaw', 'ThumbnailImage'];
+
+/**
+ * Perceptual hash of a photo, from its embedded preview or thumbnail, or from
+ * the image itself for a JPEG without one (re-encodes from messaging apps and
+ * storage saver usually have none)
+ */
+async function hashPhoto(
+  exiftool: ExifTool,
+  file: MediaFile,
+  localPath: string
+): Promise<string | null> {
+  for (const tag of PREVIEW_TAGS) {
+    try {
+      const preview = await exiftool.extractBinaryTagToBuffer(tag, localPath);
+      const hash = computePerceptualHash(preview);
+      if (hash) return hash;
+    } catch {
+      // Tag not present in this file
+    }
+  }
+
+  if (JPEG_EXTENSIONS.includes(file.extension.toLowerCase())) {
+    return computePerceptualHash(await fs.readFile(localPath));
+  }
+  return null;
+}
+
+/**
+ * Cluster resized and re-encoded copies of the same picture. Each photo gets a
+ * perceptual hash, and photos whose hashes are at most
+ * processing.nearDuplicateDistance bits apart end up in the same cluster.
+ * A cluster is recorded on its files as the id of its first file; clusters made
+ * only of byte-identical copies are left to the exact duplicate groups.
+ */
+export async function analyzeNearDuplicates(context: ProcessingContext): Promise<MediaFile[][]> {
+  const { nearDuplicateDistance: maxDistance, duplicatePolicy } = context.config.processing;
+  const rankByResolution =
+    duplicatePolicy !== 'keep' &&
+    context.config.processing.duplicateKeeperPreference.includes('resolution');
+  const photos = Array.from(context.files.values()).filter(
+    (file) =>
+      file.status !== ProcessingStatus.SKIPPED &&
+      PHOTO_EXTENSIONS.includes(file.extension.toLowerCase())
+  );
+  logger.info(`Computing perceptual hashes for ${photos.length} photos`);
+
+  const exiftool = new ExifTool({ taskTimeoutMillis: 10000 });
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'takeout-previews-'));
+  const limit = pLimit(context.config.processing.concurrency);
+  let hashedCount = 0;
+
+  try {
+    await Promise.all(
+      photos.map((file) =>
+        limit(async () => {
+          try {
+            await withLocalFile(file, context, tempDir, async (localPath) => {
+              file.perceptualHash = await hashPhoto(exiftool, file, localPath);
+              // Only needed to pick the keeper of a cluster
+              if (rankByResolution) {
+                const tags = await exiftool.read(localPath);
+                file.resolution =
+                  tags.ImageWidth && tags.ImageHeight ? tags.ImageWidth * tags.ImageHeight : null;
+              }
+            });
+          } catch (error) {
+            logger.debug('Failed to compute perceptual hash', {
+              file: file.filename,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+
+          hashedCount++;
+          if (hashedCount % 100 === 0) {
+            logger.info(`Hashed ${hashedCount}/${photos.length} photos`);
+          }
+        })
+      )
+    );
+  } finally {
+    await exiftool.end();
+    await fs.remove(tempDir);
+  }
+
+  const hashed = photos.filter((file) => file.perceptualHash !== null);
+  logger.info(`Computed perceptual hashes for ${hashed.length}/${photos.length} photos`);
+
+  // Union-find over the pairs of photos within the distance
+  const parent = hashed.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  findNearPairs(
+    hashed.map((file) => file.perceptualHash!),
+    maxDistance,
+    (i, j) => {
+      const rootI = find(i);
+      const rootJ = find(j);
+      // Keep the earliest file as the root, so cluster ids follow discovery order
+      parent[Math.max(rootI, rootJ)] = Math.min(rootI, rootJ);
+    }
+  );
+
+  const byRoot = new Map<number, MediaFile[]>();
+  hashed.forEach((file, i) => {
+    const root = find(i);
+    const members = byRoot.get(root);
+    if (members) {
+      members.push(file);
+    } else {
+      byRoot.set(root, [file]);
+    }
+  });
+
+  const clusters: MediaFile[][] = [];
+  for (const members of byRoot.values()) {
+    const distinctContents = new Set(members.map((file) => file.duplicateGroup ?? file.id));
+    if (distinctContents.size < 2) continue;
+
+    for (const file of members) {
+      file.nearDuplicateCluster = members[0].id;
+    }
+    clusters.push(members);
+    context.stats.nearDuplicateClusters++;
+    context.stats.nearDuplicateFiles += members.length;
+
+    logger.info('Found near-duplicate cluster', {
+      count: members.length,
+      files: members.map((f) => f.originalPath),
+    });
+  }
+
+  return clusters;
+}
@@ -0,0 +1,124 @@
+import path from 'path';
+import { sanitizeFolderName } from '../utils/path-utils.js';
+
+export const PATH_TEMPLATE_TOKENS = [
+  'year',
+  'month',
+  'monthName',
+  'day',
+  'hour',
+  'minute',
+  'second',
+  'camera.make',
+  'camera.model',
+  'album',
+] as const;
+
+// Filename tokens: the date and camera tokens, plus the original name (without
+// extension), the sidecar title, the duplicate counter and the content hash
+export const FILENAME_TEMPLATE_TOKENS = [
+  ...PATH_TEMPLATE_TOKENS.filter((token) => token !== 'album'),
+  'name',
+  'title',
+  'counter',
+  'hash',
+] as const;
+
+export type TemplateToken =
+  | (typeof PATH_TEMPLATE_TOKENS)[number]
+  | 'name'
+  | 'title'
+  | 'counter'
+  | 'hash';
+
+export type TemplateValues = Partial<Record<TemplateToken, string | number | null>>;
+
+export const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+// {name}, {name:02} (numbers padded to 2 digits) and {name|fallback text}
+const TOKEN_PATTERN = /\{([^{}:|]+)(?::(\d+))?(?:\|([^{}]*))?\}/g;
+
+/**
+ * Names of the tokens used by a template, e.g. ['year', 'month'] for
+ * '{year}/{month:02}-{monthName}'
+ */
+export function listTemplateTokens(template: string): string[] {
+  return Array.from(template.matchAll(TOKEN_PATTERN), (match) => match[1]);
+}
+
+/**
+ * Problems with a path template: unknown tokens, absolute paths and '..' segments
+ */
+export function findTemplateErrors(template: string, allowed: readonly string[]): string[] {
+  const errors: string[] = [];
+  for (const token of listTemplateTokens(template)) {
+    if (!allowed.includes(token)) {
+      errors.push(`unknown token {${token}} (expected one of: ${allowed.join(', ')})`);
+    }
+  }
+  if (path.isAbsolute(template) || template.split(/[/\\]/).includes('..')) {
+    errors.push('must be a relative path inside the output folder');
+  }
+  return errors;
+}
+
+/**
+ * Replace the tokens of a template. Each value is made safe as a file or folder
+ * name; missing values become the token's fallback text, or the default fallback.
+ */
+function fillTemplate(template: string, values: TemplateValues, fallback: string): string {
+  return template.replace(
+    TOKEN_PATTERN,
+    (_, token: string, width: string | undefined, tokenFallback: string | undefined) => {
+      const value = values[token as TemplateToken];
+      let text = '';
+      if (typeof value === 'number') {
+        text = width ? value.toString().padStart(parseInt(width, 10), '0') : value.toString();
+      } else if (value) {
+        text = sanitizeFolderName(value);
+      }
+      return text || sanitizeFolderName(tokenFallback ?? fallback);
+    }
+  );
+}
+
+/**
+ * Fill in a folder template, giving the relative folder path. Empty segments are
+ * dropped, so '' renders to ''.
+ */
+export function renderPathTemplate(
+  template: string,
+  values: TemplateValues,
+  fallback: string
+): string {
+  const segments = fillTemplate(template, values, fallback)
+    .split(/[/\\]/)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment && segment !== '.');
+  return segments.length > 0 ? path.join(...segments) : '';
+}
+
+/**
+ * Fill in a filename template, giving the file name without extension, or null
+ * when the template renders to nothing
+ */
+export function renderFilenameTemplate(
+  template: string,
+  values: TemplateValues,
+  fallback: string
+): string | null {
+  return sanitizeFolderName(fillTemplate(template, values, fallback)) || null;
+}
@@ -0,0 +1,184 @@
+import { decode } from 'jpeg-js';
+
+// Difference hash (dHash) grid: each of the 8 rows compares 9 neighbouring cells
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+const HASH_BITS = (HASH_WIDTH - 1) * HASH_HEIGHT;
+
+// Decoding limits for a JPEG without an embedded preview, hashed from the image itself
+const MAX_RESOLUTION_MP = 100;
+const MAX_MEMORY_MB = 1024;
+
+// Rows and columns darker than this at the edges are letterbox bars, not picture
+const BAR_LUMA = 16;
+
+/**
+ * Grayscale image, one luma value per pixel
+ */
+interface LumaImage {
+  width: number;
+  height: number;
+  values: Float64Array;
+}
+
+function toLuma(rgba: Uint8Array, width: number, height: number): LumaImage {
+  const values = new Float64Array(width * height);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return { width, height, values };
+}
+
+/**
+ * Bounds of the picture without the black bars a fixed-size EXIF thumbnail adds
+ * around a photo of another aspect ratio, so it hashes like the full image
+ */
+function findPictureBounds(image: LumaImage): { x0: number; x1: number; y0: number; y1: number } {
+  const isBar = (x0: number, x1: number, y0: number, y1: number) => {
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        if (image.values[y * image.width + x] >= BAR_LUMA) return false;
+      }
+    }
+    return true;
+  };
+
+  let y0 = 0;
+  let y1 = image.height;
+  while (y1 - y0 > HASH_HEIGHT && isBar(0, image.width, y0, y0 + 1)) y0++;
+  while (y1 - y0 > HASH_HEIGHT && isBar(0, image.width, y1 - 1, y1)) y1--;
+  let x0 = 0;
+  let x1 = image.width;
+  while (x1 - x0 > HASH_WIDTH && isBar(x0, x0 + 1, y0, y1)) x0++;
+  while (x1 - x0 > HASH_WIDTH && isBar(x1 - 1, x1, y0, y1)) x1--;
+
+  return { x0, x1, y0, y1 };
+}
+
+/**
+ * 64-bit difference hash of a JPEG image, as 16 hex digits. Resized and
+ * re-encoded copies of the same picture get hashes a few bits apart.
+ * Returns null if the JPEG can't be decoded or is too small.
+ */
+export function computePerceptualHash(jpegData: Buffer): string | null {
+  let image: LumaImage;
+  try {
+    const decoded = decode(jpegData, {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxResolutionInMP: MAX_RESOLUTION_MP,
+      maxMemoryUsageInMB: MAX_MEMORY_MB,
+    });
+    image = toLuma(decoded.data, decoded.width, decoded.height);
+  } catch {
+    return null;
+  }
+  if (image.width < HASH_WIDTH || image.height < HASH_HEIGHT) return null;
+
+  // Average of the pixels covered by each cell of the hash grid
+  const { x0, x1, y0, y1 } = findPictureBounds(image);
+  const cell = (x: number, y: number): number => {
+    const left = x0 + Math.floor((x * (x1 - x0)) / HASH_WIDTH);
+    const right = Math.max(left + 1, x0 + Math.floor(((x + 1) * (x1 - x0)) / HASH_WIDTH));
+    const top = y0 + Math.floor((y * (y1 - y0)) / HASH_HEIGHT);
+    const bottom = Math.max(top + 1, y0 + Math.floor(((y + 1) * (y1 - y0)) / HASH_HEIGHT));
+
+    let sum = 0;
+    for (let row = top; row < bottom; row++) {
+      for (let col = left; col < right; col++) {
+        sum += image.values[row * image.width + col];
+      }
+    }
+    return sum / ((right - left) * (bottom - top));
+  };
+
+  let high = 0;
+  let low = 0;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let left = cell(0, y);
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const right = cell(x + 1, y);
+      const bit = left < right ? 1 : 0;
+      const index = y * (HASH_WIDTH - 1) + x;
+      if (index < 32) {
+        high = (high << 1) | bit;
+      } else {
+        low = (low << 1) | bit;
+      }
+      left = right;
+    }
+  }
+
+  return (high >>> 0).toString(16).padStart(8, '0') + (low >>> 0).toString(16).padStart(8, '0');
+}
+
+function popCount(value: number): number {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+/**
+ * The two 32-bit halves of a perceptual hash, parsed once for fast comparisons
+ */
+export function parsePerceptualHash(hash: string): [number, number] {
+  return [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8), 16)];
+}
+
+/**
+ * Number of differing bits between two parsed perceptual hashes
+ */
+export function hammingDistance(a: [number, number], b: [number, number]): number {
+  return popCount(a[0] ^ b[0]) + popCount(a[1] ^ b[1]);
+}
+
+/**
+ * Call onPair for every pair of hashes at most maxDistance bits apart, without
+ * comparing every pair (multi-index hashing). Each hash is cut into
+ * maxDistance + 1 chunks: two hashes that close agree on at least one whole
+ * chunk, so only hashes sharing a chunk are compared. A pair is reported once,
+ * from the first chunk they share.
+ */
+export function findNearPairs(
+  hashes: string[],
+  maxDistance: number,
+  onPair: (i: number, j: number) => void
+): void {
+  const parsed = hashes.map(parsePerceptualHash);
+  const chunkCount = Math.min(maxDistance + 1, HASH_BITS);
+  const chunks = hashes.map((hash) => {
+    const bits = BigInt(`0x${hash}`);
+    return Array.from({ length: chunkCount }, (_, k) => {
+      const start = Math.floor((k * HASH_BITS) / chunkCount);
+      const end = Math.floor(((k + 1) * HASH_BITS) / chunkCount);
+      return (bits >> BigInt(start)) & ((1n << BigInt(end - start)) - 1n);
+    });
+  });
+
+  for (let k = 0; k < chunkCount; k++) {
+    const buckets = new Map<bigint, number[]>();
+    chunks.forEach((fileChunks, i) => {
+      const bucket = buckets.get(fileChunks[k]);
+      if (bucket) {
+        bucket.push(i);
+      } else {
+        buckets.set(fileChunks[k], [i]);
+      }
+    });
+
+    for (const bucket of buckets.values()) {
+      for (let a = 0; a < bucket.length; a++) {
+        for (let b = a + 1; b < bucket.length; b++) {
+          const i = bucket[a];
+          const j = bucket[b];
+          const sharedEarlier = chunks[i]
+            .slice(0, k)
+            .some((chunk, earlier) => chunk === chunks[j][earlier]);
+          if (!sharedEarlier && hammingDistance(parsed[i], parsed[j]) <= maxDistance) {
+            onPair(i, j);
+          }
+        }
+      }
+    }
+  }
+}
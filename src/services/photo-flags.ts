@@ -0,0 +1,59 @@
+import type { MediaFile } from '../types/media.js';
+import type { ProcessingContext } from '../types/processing.js';
+import { ProcessingStatus } from '../types/media.js';
+import logger from '../utils/logger.js';
+
+export function isFavorite(file: MediaFile): boolean {
+  return file.metadata?.favorited === true;
+}
+
+export function isArchived(file: MediaFile): boolean {
+  return file.metadata?.archived === true;
+}
+
+export function isTrashed(file: MediaFile): boolean {
+  return file.metadata?.trashed === true;
+}
+
+/**
+ * Whether a file goes to the quarantine folder instead of the library
+ */
+export function isQuarantined(file: MediaFile, context: ProcessingContext): boolean {
+  return isTrashed(file) && context.config.processing.trashedPolicy === 'quarantine';
+}
+
+/**
+ * Count the favorite, archived and trashed photos, and leave trashed photos out of
+ * the output unless the trashed policy keeps them. Runs after edited variants and
+ * Live Photo videos have inherited their metadata, so they follow their original.
+ */
+export function applyPhotoFlags(context: ProcessingContext): void {
+  const policy = context.config.processing.trashedPolicy;
+
+  for (const file of context.files.values()) {
+    if (file.status === ProcessingStatus.SKIPPED) continue;
+
+    if (isTrashed(file)) {
+      context.stats.trashedFiles++;
+      if (policy === 'exclude') {
+        file.status = ProcessingStatus.SKIPPED;
+        logger.debug('Excluded trashed file', { file: file.filename });
+      }
+      continue;
+    }
+
+    if (isFavorite(file)) {
+      context.stats.favoriteFiles++;
+    }
+    if (isArchived(file)) {
+      context.stats.archivedFiles++;
+    }
+  }
+
+  logger.info('Read photo flags', {
+    favorites: context.stats.favoriteFiles,
+    archived: context.stats.archivedFiles,
+    trashed: context.stats.trashedFiles,
+    trashedPolicy: policy,
+  });
+}
@@ -0,0 +1,67 @@
+import type { MediaFile } from '../types/media.js';
+import type { ProcessingContext } from '../types/processing.js';
+import { ProcessingStatus } from '../types/media.js';
+import { isAlbumFolder } from '../utils/path-utils.js';
+import logger from '../utils/logger.js';
+
+/**
+ * What makes two byte-identical files the same photo: their sidecars agree on
+ * the title and when the photo was taken (or neither has one)
+ */
+function getSidecarKey(file: MediaFile): string {
+  if (!file.metadata) return '';
+  return `${file.metadata.title}\0${file.metadata.photoTakenTime?.timestamp ?? ''}`;
+}
+
+/**
+ * Merge the appearances of one photo into a single canonical file. Takeout
+ * exports a photo once in its year folder and once more in every album holding
+ * it, as byte-identical files with the same sidecar. The year-folder appearance
+ * (or the first one, for photos only in albums) stays canonical and records the
+ * albums of the others in albumFolders; the others are skipped.
+ * Identical files within one folder were uploaded twice and stay duplicates.
+ * Returns the files of the group that are left.
+ */
+export function mergeAppearances(files: MediaFile[], context: ProcessingContext): MediaFile[] {
+  const byIdentity = new Map<string, MediaFile[]>();
+  for (const file of files) {
+    const key = getSidecarKey(file);
+    const appearances = byIdentity.get(key);
+    if (appearances) {
+      appearances.push(file);
+    } else {
+      byIdentity.set(key, [file]);
+    }
+  }
+
+  for (const appearances of byIdentity.values()) {
+    if (appearances.length < 2) continue;
+
+    // Prefer IMG.jpg over a re-upload IMG(1).jpg in the same folder
+    const ranked = [...appearances].sort((a, b) => a.duplicateIndex - b.duplicateIndex);
+    const canonical =
+      ranked.find((file) => !isAlbumFolder(file.sourceFolder, context.locale)) ?? ranked[0];
+    const folders = new Set([canonical.sourceFolder]);
+
+    for (const file of appearances) {
+      if (file === canonical || folders.has(file.sourceFolder)) continue;
+      folders.add(file.sourceFolder);
+
+      for (const albumFolder of file.albumFolders) {
+        if (!canonical.albumFolders.includes(albumFolder)) {
+          canonical.albumFolders.push(albumFolder);
+        }
+      }
+      file.canonicalId = canonical.id;
+      file.status = ProcessingStatus.SKIPPED;
+      context.stats.mergedAppearances++;
+
+      logger.debug('Merged photo appearance', {
+        file: file.originalPath,
+        canonical: canonical.originalPath,
+      });
+    }
+  }
+
+  return files.filter((file) => file.canonicalId === null);
+}
@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import * as tar from 'tar';
+import type { ArchiveValidationResult } from '../types/processing.js';
+import { MAX_COMPRESSION_RATIO, MAX_FILE_COUNT, MAX_UNCOMPRESSED_SIZE } from '../constants.js';
+import { formatBytes } from '../utils/file-utils.js';
+
+// Listing a .tgz means decompressing it entirely, so keep results for the run
+const validationCache = new Map<string, Promise<ArchiveValidationResult>>();
+
+/**
+ * Check whether a tar entry path would escape the extraction directory
+ */
+function isUnsafeEntryPath(entryPath: string): boolean {
+  return (
+    path.posix.isAbsolute(entryPath) ||
+    path.win32.isAbsolute(entryPath) ||
+    entryPath.split(/[\\/]/).includes('..')
+  );
+}
+
+/**
+ * Whether a tar entry type is a regular file
+ */
+function isFileEntry(type: string): boolean {
+  return type === 'File' || type === 'OldFile';
+}
+
+/**
+ * Validate a gzip-compressed tar archive by reading all of its headers.
+ * Applies the same limits as ZIP files: file count, total size, compression ratio
+ * and path traversal.
+ */
+export async function validateTarArchive(archivePath: string): Promise<ArchiveValidationResult> {
+  const stats = await fs.stat(archivePath);
+  const cacheKey = `${archivePath}:${stats.size}:${stats.mtimeMs}`;
+
+  let cached = validationCache.get(cacheKey);
+  if (!cached) {
+    cached = readTarHeaders(archivePath, stats.size);
+    validationCache.set(cacheKey, cached);
+  }
+  return cached;
+}
+
+async function readTarHeaders(
+  archivePath: string,
+  compressedSize: number
+): Promise<ArchiveValidationResult> {
+  return new Promise((resolve) => {
+    let fileCount = 0;
+    let uncompressedSize = 0;
+    let settled = false;
+    const directoryHash = crypto.createHash('sha256');
+
+    const input = fs.createReadStream(archivePath);
+
+    const finish = (error?: string) => {
+      if (settled) return;
+      settled = true;
+      input.destroy();
+
+      const compressionRatio = compressedSize > 0 ? uncompressedSize / compressedSize : 0;
+      resolve({
+        valid: !error,
+        fileCount,
+        compressedSize,
+        uncompressedSize,
+        compressionRatio,
+        directoryHash: error ? undefined : directoryHash.digest('hex'),
+        error,
+      });
+    };
+
+    const parser = new tar.Parser({
+      strict: true,
+      onReadEntry: (entry) => {
+        entry.resume();
+        if (settled) return;
+
+        if (isUnsafeEntryPath(entry.path)) {
+          finish(`Unsafe path in archive: ${entry.path}`);
+          return;
+        }
+
+        // Links could point outside staging; Takeout archives never contain any
+        if (entry.type === 'SymbolicLink' || entry.type === 'Link') {
+          finish(`Link entry in archive: ${entry.path}`);
+          return;
+        }
+
+        if (!isFileEntry(entry.type)) {
+          return;
+        }
+
+        fileCount++;
+        uncompressedSize += entry.size;
+        directoryHash.update(`${entry.path}\0${entry.size}\0${entry.mtime?.getTime() ?? 0}\n`);
+
+        // Check limits incrementally
+        if (fileCount > MAX_FILE_COUNT) {
+          finish(`Archive contains too many files (>${MAX_FILE_COUNT})`);
+          return;
+        }
+
+        if (uncompressedSize > MAX_UNCOMPRESSED_SIZE) {
+          finish(
+            `Archive uncompressed size exceeds limit (${formatBytes(uncompressedSize)} > ${formatBytes(MAX_UNCOMPRESSED_SIZE)})`
+          );
+        }
+      },
+    });
+
+    parser.on('end', () => {
+      const compressionRatio = compressedSize > 0 ? uncompressedSize / compressedSize : 0;
+      if (compressionRatio > MAX_COMPRESSION_RATIO) {
+        finish(
+          `Suspicious compression ratio (${compressionRatio.toFixed(1)}:1) - possible archive bomb`
+        );
+        return;
+      }
+      finish();
+    });
+
+    parser.on('error', (error: Error) => finish(error.message));
+    input.on('error', (error) => finish(error.message));
+
+    input.pipe(parser);
+  });
+}
+
+/**
+ * Extract the regular files of a gzip-compressed tar archive into targetDir.
+ * Folders are created as needed; links, devices and other entries are left out.
+ */
+export async function extractTarArchive(archivePath: string, targetDir: string): Promise<void> {
+  await fs.ensureDir(targetDir);
+  await tar.extract({
+    file: archivePath,
+    cwd: path.resolve(targetDir),
+    strict: true,
+    filter: (_, entry) => 'type' in entry && isFileEntry(entry.type),
+  });
+}
@@ -0,0 +1,186 @@
+import path from 'path';
+import type { Readable } from 'stream';
+import type { Entry, ZipFile } from 'yauzl';
+import type { ArchiveEntry } from '../types/media.js';
+import { decodeEntryName, openZipFile } from './zip-archive.js';
+import logger from '../utils/logger.js';
+
+interface IndexedEntry {
+  zipFile: ZipFile;
+  entry: Entry;
+  info: ArchiveEntry;
+}
+
+/**
+ * In-memory index of the entries of one or more ZIP archives.
+ * Entries are addressed by the path they would have once extracted into rootDir,
+ * so discovery and organization can work with them like staged files.
+ */
+export class ZipArchiveIndex {
+  private rootDir: string;
+  private zipFiles: ZipFile[] = [];
+  private entries = new Map<string, IndexedEntry>();
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  /**
+   * Read the central directory of a ZIP file and add its entries to the index,
+   * leaving out the given (rejected or duplicate) entries.
+   * Returns the number of file entries added.
+   */
+  async addArchive(zipPath: string, skippedEntries: Set<string> = new Set()): Promise<number> {
+    const zipFile = await openZipFile(zipPath, false);
+    this.zipFiles.push(zipFile);
+
+    return new Promise((resolve, reject) => {
+      let added = 0;
+
+      zipFile.on('entry', (entry: Entry) => {
+        const entryName = decodeEntryName(entry);
+
+        // Directory entries end with a slash and carry no data
+        if (!entryName.endsWith('/') && !skippedEntries.has(entryName)) {
+          const filePath = path.join(this.rootDir, ...entryName.split('/'));
+          if (this.entries.has(filePath)) {
+            logger.debug('Duplicate archive entry ignored', {
+              archive: path.basename(zipPath),
+              entry: entryName,
+            });
+          } else {
+            this.entries.set(filePath, {
+              zipFile,
+              entry,
+              info: {
+                archivePath: zipPath,
+                entryName,
+                size: entry.uncompressedSize,
+                modifiedAt: entry.getLastModDate(),
+              },
+            });
+            added++;
+          }
+        }
+        zipFile.readEntry();
+      });
+
+      zipFile.on('end', () => resolve(added));
+      zipFile.on('error', reject);
+
+      zipFile.readEntry();
+    });
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(filePath: string): boolean {
+    return this.entries.has(filePath);
+  }
+
+  get(filePath: string): ArchiveEntry | null {
+    return this.entries.get(filePath)?.info ?? null;
+  }
+
+  /**
+   * List indexed file paths located under a directory (recursively)
+   */
+  listFiles(dirPath: string): string[] {
+    const prefix = path.resolve(dirPath) + path.sep;
+    return Array.from(this.entries.keys()).filter((filePath) => filePath.startsWith(prefix));
+  }
+
+  /**
+   * Open a decompressing stream for an entry.
+   * yauzl checks the inflated byte count against the size declared in the central
+   * directory, so the limits validated on the archive hold while streaming.
+   */
+  async openReadStream(filePath: string): Promise<Readable> {
+    return this.openEntryStream(filePath);
+  }
+
+  /**
+   * Read the first bytes of an entry (used for magic byte detection)
+   */
+  async readBytes(filePath: string, length: number): Promise<Buffer> {
+    const indexed = this.entries.get(filePath);
+
+    // Stored entries are read as a byte range. Their streams cannot be stopped early:
+    // yauzl's file reader emits an error when destroyed.
+    if (indexed && !indexed.entry.isCompressed()) {
+      const end = Math.min(length, indexed.entry.compressedSize);
+      return readAll(await this.openEntryStream(filePath, { start: 0, end }));
+    }
+
+    const stream = await this.openEntryStream(filePath);
+    const chunks: Buffer[] = [];
+    let total = 0;
+
+    // Breaking out of the loop destroys the inflating stream
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+      total += (chunk as Buffer).length;
+      if (total >= length) break;
+    }
+
+    return Buffer.concat(chunks).subarray(0, length);
+  }
+
+  async readText(filePath: string): Promise<string> {
+    const buffer = await readAll(await this.openReadStream(filePath));
+    return buffer.toString('utf-8');
+  }
+
+  private async openEntryStream(
+    filePath: string,
+    range?: { start: number; end: number }
+  ): Promise<Readable> {
+    const indexed = this.entries.get(filePath);
+    if (!indexed) {
+      throw new Error(`Entry not found in archives: ${filePath}`);
+    }
+
+    return new Promise((resolve, reject) => {
+      const callback = (err: Error | null, stream: Readable) => {
+        if (err || !stream) {
+          reject(err ?? new Error(`Failed to open entry: ${indexed.info.entryName}`));
+          return;
+        }
+        resolve(stream);
+      };
+
+      if (range) {
+        indexed.zipFile.openReadStream(
+          indexed.entry,
+          { decompress: null, decrypt: null, ...range },
+          callback
+        );
+      } else {
+        indexed.zipFile.openReadStream(indexed.entry, callback);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    for (const zipFile of this.zipFiles) {
+      zipFile.close();
+    }
+    this.zipFiles = [];
+    this.entries.clear();
+  }
+}
+
+/**
+ * Read a stream to its end. Async iteration is not used here: the file reader
+ * streams of stored entries never emit 'close', so the iterator would not finish.
+ */
+function readAll(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
@@ -0,0 +1,271 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import yauzl, { type Entry, type ZipFile } from 'yauzl';
+import type { ArchiveValidationResult, RejectedEntry } from '../types/processing.js';
+import {
+  MAX_COMPRESSION_RATIO,
+  MAX_FILE_COUNT,
+  MAX_UNCOMPRESSED_SIZE,
+  MIN_ENTRY_RATIO_CHECK_SIZE,
+} from '../constants.js';
+import { formatBytes } from '../utils/file-utils.js';
+
+export interface ZipValidationResult extends ArchiveValidationResult {
+  // Entries that must not be extracted, with the reason they were rejected
+  rejectedEntries: RejectedEntry[];
+  // Rejected entries plus identical copies of entries claimed by another archive
+  skippedEntries: Set<string>;
+}
+
+/**
+ * Entry names claimed so far across all archives of the export, used to detect
+ * the same path appearing with different content in two archives
+ */
+export type EntryRegistry = Map<string, { archive: string; crc32: number; size: number }>;
+
+// Not declared in @types/yauzl, but exported for callers that disable decodeStrings
+const { getFileNameLowLevel } = yauzl as unknown as {
+  getFileNameLowLevel: (
+    generalPurposeBitFlag: number,
+    fileNameBuffer: Buffer,
+    extraFields: Entry['extraFields'],
+    strictFileNames: boolean
+  ) => string;
+};
+
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+/**
+ * Open a ZIP file without yauzl's file name validation, which would abort the
+ * whole archive on the first unsafe entry. Names are decoded with decodeEntryName.
+ */
+export async function openZipFile(zipPath: string, autoClose: boolean = true): Promise<ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(zipPath, { lazyEntries: true, autoClose, decodeStrings: false }, (err, zipFile) => {
+      if (err || !zipFile) {
+        reject(err ?? new Error(`Failed to open ZIP file: ${zipPath}`));
+        return;
+      }
+      resolve(zipFile);
+    });
+  });
+}
+
+export function decodeEntryName(entry: Entry): string {
+  // With decodeStrings disabled, fileName holds the raw bytes
+  const raw = entry.fileName as unknown as Buffer;
+  return getFileNameLowLevel(entry.generalPurposeBitFlag, raw, entry.extraFields, false);
+}
+
+/**
+ * Check a single entry for an unsafe path, a symlink or a suspicious compression ratio.
+ * Returns the rejection reason, or null if the entry can be extracted.
+ */
+function checkEntry(entry: Entry, entryName: string): string | null {
+  if (/^[a-zA-Z]:/.test(entryName) || entryName.startsWith('/')) {
+    return 'Absolute path';
+  }
+
+  if (entryName.split('/').includes('..')) {
+    return 'Path traversal (..)';
+  }
+
+  // Unix permissions live in the high 16 bits of the external attributes
+  if (((entry.externalFileAttributes >>> 16) & S_IFMT) === S_IFLNK) {
+    return 'Symbolic link';
+  }
+
+  // Small entries can compress well without being a threat
+  if (entry.uncompressedSize >= MIN_ENTRY_RATIO_CHECK_SIZE) {
+    const ratio =
+      entry.compressedSize > 0 ? entry.uncompressedSize / entry.compressedSize : Infinity;
+    if (ratio > MAX_COMPRESSION_RATIO) {
+      return `Suspicious compression ratio (${ratio.toFixed(1)}:1)`;
+    }
+  }
+
+  return null;
+}
+
+export async function validateZipFile(
+  zipPath: string,
+  registry: EntryRegistry = new Map()
+): Promise<ZipValidationResult> {
+  const archiveName = path.basename(zipPath);
+  const rejectedEntries: RejectedEntry[] = [];
+  const skippedEntries = new Set<string>();
+
+  let zipfile: ZipFile;
+  try {
+    zipfile = await openZipFile(zipPath);
+  } catch (error) {
+    return {
+      valid: false,
+      fileCount: 0,
+      compressedSize: 0,
+      uncompressedSize: 0,
+      compressionRatio: 0,
+      error: error instanceof Error ? error.message : 'Failed to open ZIP file',
+      rejectedEntries,
+      skippedEntries,
+    };
+  }
+
+  return new Promise((resolve) => {
+    let fileCount = 0;
+    let totalUncompressedSize = 0;
+    let totalCompressedSize = 0;
+    const directoryHash = crypto.createHash('sha256');
+
+    const result = (error?: string): ZipValidationResult => ({
+      valid: !error,
+      fileCount,
+      compressedSize: totalCompressedSize,
+      uncompressedSize: totalUncompressedSize,
+      compressionRatio: totalCompressedSize > 0 ? totalUncompressedSize / totalCompressedSize : 0,
+      directoryHash: error ? undefined : directoryHash.digest('hex'),
+      error,
+      rejectedEntries,
+      skippedEntries,
+    });
+
+    zipfile.on('entry', (entry: Entry) => {
+      const entryName = decodeEntryName(entry);
+      fileCount++;
+      totalUncompressedSize += entry.uncompressedSize;
+      totalCompressedSize += entry.compressedSize;
+      directoryHash.update(
+        `${entryName}\0${entry.crc32}\0${entry.compressedSize}\0${entry.uncompressedSize}\n`
+      );
+
+      // Check limits incrementally
+      if (fileCount > MAX_FILE_COUNT) {
+        zipfile.close();
+        resolve(result(`ZIP contains too many files (>${MAX_FILE_COUNT})`));
+        return;
+      }
+
+      if (totalUncompressedSize > MAX_UNCOMPRESSED_SIZE) {
+        zipfile.close();
+        resolve(
+          result(
+            `ZIP uncompressed size exceeds limit (${formatBytes(totalUncompressedSize)} > ${formatBytes(MAX_UNCOMPRESSED_SIZE)})`
+          )
+        );
+        return;
+      }
+
+      // Per-entry checks: reject the entry, not the archive
+      const reason = checkEntry(entry, entryName);
+      if (reason) {
+        rejectedEntries.push({ archive: archiveName, entry: entryName, reason });
+        skippedEntries.add(entryName);
+      } else if (!entryName.endsWith('/')) {
+        const claimed = registry.get(entryName);
+        if (!claimed) {
+          registry.set(entryName, {
+            archive: archiveName,
+            crc32: entry.crc32,
+            size: entry.uncompressedSize,
+          });
+        } else if (claimed.archive !== archiveName) {
+          // Identical copies are already extracted from the other archive
+          skippedEntries.add(entryName);
+          if (claimed.crc32 !== entry.crc32 || claimed.size !== entry.uncompressedSize) {
+            rejectedEntries.push({
+              archive: archiveName,
+              entry: entryName,
+              reason: `Different content than the same entry in ${claimed.archive}`,
+            });
+          }
+        }
+      }
+
+      zipfile.readEntry();
+    });
+
+    zipfile.on('end', () => {
+      const compressionRatio =
+        totalCompressedSize > 0 ? totalUncompressedSize / totalCompressedSize : 0;
+
+      if (compressionRatio > MAX_COMPRESSION_RATIO) {
+        resolve(
+          result(
+            `Suspicious compression ratio (${compressionRatio.toFixed(1)}:1) - possible zip bomb`
+          )
+        );
+        return;
+      }
+
+      resolve(result());
+    });
+
+    zipfile.on('error', (error: Error) => {
+      resolve(result(error.message));
+    });
+
+    zipfile.readEntry();
+  });
+}
+
+/**
+ * Extract a ZIP file into targetDir, leaving out the given entries
+ */
+export async function extractZipArchive(
+  zipPath: string,
+  targetDir: string,
+  skippedEntries: Set<string>
+): Promise<void> {
+  const rootDir = path.resolve(targetDir);
+  const zipfile = await openZipFile(zipPath, false);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const extractEntry = async (entry: Entry, entryName: string): Promise<void> => {
+        const target = path.join(rootDir, ...entryName.split('/'));
+
+        if (entryName.endsWith('/')) {
+          await fs.ensureDir(target);
+          return;
+        }
+
+        await fs.ensureDir(path.dirname(target));
+        const stream = await new Promise<NodeJS.ReadableStream>((resolveStream, rejectStream) => {
+          zipfile.openReadStream(entry, (err, readStream) => {
+            if (err || !readStream) {
+              rejectStream(err ?? new Error(`Failed to open entry: ${entryName}`));
+              return;
+            }
+            resolveStream(readStream);
+          });
+        });
+        await pipeline(stream, fs.createWriteStream(target));
+
+        const modifiedAt = entry.getLastModDate();
+        await fs.utimes(target, modifiedAt, modifiedAt);
+      };
+
+      zipfile.on('entry', (entry: Entry) => {
+        const entryName = decodeEntryName(entry);
+        if (skippedEntries.has(entryName)) {
+          zipfile.readEntry();
+          return;
+        }
+
+        extractEntry(entry, entryName)
+          .then(() => zipfile.readEntry())
+          .catch(reject);
+      });
+
+      zipfile.on('end', () => resolve());
+      zipfile.on('error', reject);
+
+      zipfile.readEntry();
+    });
+  } finally {
+    zipfile.close();
+  }
+}
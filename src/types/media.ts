@@ -1,7 +1,10 @@
+import type { LinkMode } from './processing.js';
+
 export enum ProcessingStatus {
   PENDING = 'pending',
   COMPLETED = 'completed',
   FAILED = 'failed',
+  SKIPPED = 'skipped',
 }
 
 export interface GoogleMetadata {
@@ -29,23 +32,92 @@ export interface GoogleMetadata {
     latitudeSpan: number;
     longitudeSpan: number;
   };
+  // People tagged (face groups named by the user)
+  people?: Array<{ name: string }>;
+  favorited?: boolean;
+  archived?: boolean;
+  trashed?: boolean;
+}
+
+export interface Album {
+  // Folder the album was exported to: Google sanitizes and truncates the title
+  sourceFolder: string;
+  // Real album title from the album's metadata.json, or the folder name without one
+  title: string;
+  description: string;
+  date: Date | null;
+  // Name of the album folder in the output, derived from the title
+  outputFolder: string;
 }
 
 export interface ProcessedPaths {
   byYear: string | null;
-  byAlbum: string | null;
+  // One entry per album the photo appears in
+  byAlbum: string[];
+  byPeople: string[];
+  byFavorites: string | null;
+}
+
+// How an output entry was written, and how it was meant to be (a copy when linking failed)
+export interface OutputLink {
+  target: string;
+  method: LinkMode;
+  requested: LinkMode;
+}
+
+export interface CameraInfo {
+  make: string | null;
+  model: string | null;
+}
+
+export interface ArchiveEntry {
+  archivePath: string;
+  entryName: string;
+  size: number;
+  modifiedAt: Date;
 }
 
 export interface MediaFile {
   id: string;
   originalPath: string;
+  archiveEntry: ArchiveEntry | null;
   filename: string;
   extension: string;
   metadata: GoogleMetadata | null;
   sourceFolder: string;
+  // Album folders the photo appears in, its own folder included when it is an album
+  albumFolders: string[];
+  // Id of the file this appearance was merged into (same photo exported to another folder)
+  canonicalId: string | null;
+  size: number;
+  // Modification time at discovery (as recorded in the archive when streaming): the
+  // date of last resort, whether the file is later copied, moved or rewritten
+  modifiedAt: Date | null;
+  // Content hash, computed for files sharing their size with another file
+  contentHash: string | null;
+  // Content hash shared with byte-identical files, null if the file is unique
   duplicateGroup: string | null;
+  // Counter of a renumbered name (IMG(1).jpg), 0 for the first copy
   duplicateIndex: number;
+  // Perceptual hash of a photo, and the id of the first file of its near-duplicate
+  // cluster (resized or re-encoded copies), when near-duplicate detection is on
+  perceptualHash: string | null;
+  nearDuplicateCluster: string | null;
+  // Width times height of a photo, read when the duplicate policy may rank by resolution
+  resolution: number | null;
+  // Id of the keeper of this file's duplicate group, when the duplicate policy resolved it
+  duplicateOf: string | null;
+  // Camera from the file's EXIF, read when the output layout uses camera tokens
+  camera: CameraInfo | null;
+  // Links between an original and its edited variant (IMG_1234-edited.jpg), by file id
+  editedFromId: string | null;
+  editedVersionId: string | null;
+  // Links between the still and video parts of a Live Photo, by file id
+  livePhotoStillId: string | null;
+  livePhotoVideoId: string | null;
   processedPaths: ProcessedPaths;
+  // Link method of each entry made by the link mode
+  links: OutputLink[];
   status: ProcessingStatus;
   error: string | null;
 }
@@ -1,27 +1,111 @@
-import type { MediaFile } from './media.js';
+import type { Album, MediaFile } from './media.js';
+import type { ZipArchiveIndex } from '../services/zip-archive-index.js';
+
+export type InputMode = 'extract' | 'stream' | 'folder';
+export type ArchiveFormat = 'zip' | 'tgz';
+// Which of an original and its edited variant end up in the output
+export type EditedPolicy = 'both' | 'edited' | 'original';
+// What happens to photos that were in the Google Photos bin
+export type TrashedPolicy = 'exclude' | 'quarantine' | 'include';
+// What happens to the copies of a duplicate group other than its keeper
+export type DuplicatePolicy = 'keep' | 'skip' | 'link' | 'quarantine';
+// Whether duplicate groups are byte-identical files only, or near-duplicate clusters too
+export type DuplicateScope = 'exact' | 'near';
+// Ways of ranking the files of a duplicate group to pick the one to keep
+export type KeeperCriterion = 'metadata' | 'resolution' | 'date';
+// How album, person and favorites entries point at the year folder file
+export type LinkMode = 'hardlink' | 'reflink' | 'symlink' | 'copy';
+// Whether staged files are copied or moved into the year folders
+export type TransferMode = 'copy' | 'move';
+
+export interface TakeoutLocale {
+  id: string;
+  photosDir: string;
+  yearFolderPattern: RegExp;
+  // Appended to the name of edited copies, e.g. IMG_1234-edited.jpg
+  editedSuffix: string;
+  // Name of the album-level metadata file in each album folder
+  albumMetadataFile: string;
+}
+
+export interface RejectedEntry {
+  archive: string;
+  entry: string;
+  reason: string;
+}
+
+export interface DuplicateGroup {
+  kind: 'exact' | 'near';
+  // Content hash of an exact group, or the cluster id of a near-duplicate cluster
+  key: string;
+  keeper: MediaFile;
+  copies: MediaFile[];
+  // What set the keeper apart: being in the library rather than the trash or archive
+  // folder, then the first keeper criterion; null if it won on duplicate index
+  decidedBy: KeeperCriterion | 'library' | null;
+}
+
+export interface ArchiveValidationResult {
+  valid: boolean;
+  fileCount: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  compressionRatio: number;
+  // Hash of the ZIP central directory (or tar headers), set when the archive is valid
+  directoryHash?: string;
+  error?: string;
+  // Entries left out of extraction (ZIP only), see services/zip-archive.ts
+  rejectedEntries?: RejectedEntry[];
+  skippedEntries?: Set<string>;
+}
+
 export interface Config {
   input: {
     zipDirectory: string;
     zipPattern: string;
+    mode: InputMode;
   };
   output: {
     stagingDir: string;
     outputDir: string;
     byYearSubdir: string;
     byAlbumSubdir: string;
+    // Folder layouts below byYearSubdir and byAlbumSubdir, see services/path-template.ts
+    pathTemplate: string;
+    albumPathTemplate: string;
+    // Name of the year folder copy, empty to keep the original name
+    filenameTemplate: string;
+    byPeopleSubdir: string;
+    createPeopleFolders: boolean;
+    favoritesSubdir: string;
+    createFavoritesFolder: boolean;
+    archiveSubdir: string;
+    separateArchived: boolean;
+    trashSubdir: string;
+    duplicatesSubdir: string;
     unknownYearFolder: string;
   };
   processing: {
     concurrency: number;
     retryAttempts: number;
     retryDelay: number;
-    useHardLinks: boolean;
+    linkMode: LinkMode;
+    transfer: TransferMode;
     fallbackToCopy: boolean;
+    editedPolicy: EditedPolicy;
+    trashedPolicy: TrashedPolicy;
+    detectNearDuplicates: boolean;
+    nearDuplicateDistance: number;
+    duplicatePolicy: DuplicatePolicy;
+    duplicateScope: DuplicateScope;
+    duplicateKeeperPreference: KeeperCriterion[];
   };
   exif: {
     writeGPS: boolean;
     writeDescription: boolean;
     writeKeywords: boolean;
+    writePeople: boolean;
+    writeRating: boolean;
     writeDateTimeOriginal: boolean;
     preserveOriginalFile: boolean;
   };
@@ -36,13 +120,37 @@ export interface Config {
 export interface ProcessingStats {
   totalFiles: number;
   processedFiles: number;
+  // Files moved out of staging by the move transfer mode
+  movedFiles: number;
   failedFiles: number;
   totalSize: number;
+  // Extra appearances of a photo in album folders, merged into one file
+  mergedAppearances: number;
   duplicateGroups: number;
+  // Copies beyond the first of each duplicate group, and the bytes they take up
+  duplicateFiles: number;
+  duplicateBytes: number;
+  nearDuplicateClusters: number;
+  nearDuplicateFiles: number;
+  // Copies skipped, linked or quarantined by the duplicate policy
+  resolvedDuplicates: number;
   albumCount: number;
+  // Output entries by how they were linked, and links that fell back to a copy
+  linkMethods: Record<LinkMode, number>;
+  linkFallbacks: number;
   yearRange: { min: number; max: number };
   exifFailures: number;
   timestampFailures: number;
+  rejectedEntries: number;
+  editedVariants: number;
+  skippedFiles: number;
+  livePhotoPairs: number;
+  favoriteFiles: number;
+  archivedFiles: number;
+  trashedFiles: number;
+  mediaWithoutMetadata: number;
+  orphanedSidecars: number;
+  unsupportedFiles: number;
 }
 
 export interface ProcessingContext {
@@ -52,6 +160,20 @@ export interface ProcessingContext {
   outputDir: string;
   byYearDir: string;
   byAlbumDir: string;
+  byPeopleDir: string;
+  favoritesDir: string;
+  archiveDir: string;
+  trashDir: string;
+  duplicatesDir: string;
+  // Takeout folders scanned by discovery: the staging copy, or the input folders in folder mode
+  takeoutDirs: string[];
+  archiveIndex: ZipArchiveIndex | null;
+  locale: TakeoutLocale;
+  rejectedEntries: RejectedEntry[];
   files: Map<string, MediaFile>;
+  // Albums by source folder name
+  albums: Map<string, Album>;
+  // Duplicate groups resolved by the duplicate policy, with their keeper
+  duplicates: DuplicateGroup[];
   stats: ProcessingStats;
 }
@@ -0,0 +1,79 @@
+import { glob } from 'glob';
+import path from 'path';
+import type { ArchiveFormat, Config } from '../types/processing.js';
+import { TAKEOUT_PART_PATTERN } from '../constants.js';
+import { detectArchiveFormat } from '../services/magic-byte-detector.js';
+import logger from './logger.js';
+
+export interface TakeoutArchive {
+  path: string;
+  format: ArchiveFormat;
+}
+
+/**
+ * Find Takeout archives matching the input pattern and detect their format.
+ * Files that are neither ZIP nor gzip-compressed tar are skipped with a warning.
+ */
+export async function findArchives(input: Config['input']): Promise<TakeoutArchive[]> {
+  const files = await glob(input.zipPattern, {
+    cwd: input.zipDirectory,
+    absolute: true,
+    nodir: true,
+  });
+
+  const archives: TakeoutArchive[] = [];
+  for (const file of files.sort()) {
+    const format = await detectArchiveFormat(file);
+    if (format) {
+      archives.push({ path: file, format });
+    } else {
+      logger.warn(`Skipping unrecognized archive format: ${path.basename(file)}`);
+    }
+  }
+
+  return archives;
+}
+
+/**
+ * Group archives by export and look for gaps in the part numbering.
+ * Missing trailing parts cannot be detected, since names don't carry the part count.
+ * Returns a description of each problem found.
+ */
+export function findArchiveSetIssues(archives: TakeoutArchive[]): string[] {
+  const exports = new Map<string, number[]>();
+
+  for (const archive of archives) {
+    const match = path.basename(archive.path).match(TAKEOUT_PART_PATTERN);
+    if (!match) continue;
+
+    const [, exportId, part] = match;
+    if (!exports.has(exportId)) {
+      exports.set(exportId, []);
+    }
+    exports.get(exportId)!.push(parseInt(part, 10));
+  }
+
+  const issues: string[] = [];
+
+  if (exports.size > 1) {
+    issues.push(
+      `Archives come from ${exports.size} different exports: ${Array.from(exports.keys()).join(', ')}`
+    );
+  }
+
+  for (const [exportId, parts] of exports) {
+    const present = new Set(parts);
+    const lastPart = Math.max(...parts);
+    const missing: number[] = [];
+    for (let part = 1; part <= lastPart; part++) {
+      if (!present.has(part)) missing.push(part);
+    }
+
+    if (missing.length > 0) {
+      const names = missing.map((part) => `-${part.toString().padStart(3, '0')}`);
+      issues.push(`Export ${exportId} is missing part(s): ${names.join(', ')}`);
+    }
+  }
+
+  return issues;
+}
@@ -1,30 +1,7 @@
 import fs from 'fs-extra';
-import path from 'path';
 import readline from 'readline';
 import logger from './logger.js';
-import { formatBytes } from './file-utils.js';
-
-/**
- * Calculate total size of a directory in bytes
- */
-async function getDirectorySize(dirPath: string): Promise<number> {
-  if (!(await fs.pathExists(dirPath))) return 0;
-
-  let totalSize = 0;
-  const items = await fs.readdir(dirPath, { withFileTypes: true });
-
-  for (const item of items) {
-    const itemPath = path.join(dirPath, item.name);
-    if (item.isDirectory()) {
-      totalSize += await getDirectorySize(itemPath);
-    } else {
-      const stats = await fs.stat(itemPath);
-      totalSize += stats.size;
-    }
-  }
-
-  return totalSize;
-}
+import { formatBytes, getDirectorySize } from './file-utils.js';
 
 /**
  * Check if running in interactive mode (TTY)
@@ -36,14 +13,14 @@ function isInteractive(): boolean {
 /**
  * Prompt user for yes/no cleanup confirmation
  */
-async function promptCleanup(totalSize: number): Promise<boolean> {
+async function promptCleanup(what: string, totalSize: number): Promise<boolean> {
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
   });
 
   return new Promise((resolve) => {
-    rl.question(`\nClean up staging and logs (${formatBytes(totalSize)})? [y/N] `, (answer) => {
+    rl.question(`\nClean up ${what} (${formatBytes(totalSize)})? [y/N] `, (answer) => {
       rl.close();
       resolve(answer.trim().toLowerCase() === 'y');
     });
@@ -51,12 +28,16 @@ async function promptCleanup(totalSize: number): Promise<boolean> {
 }
 
 /**
- * Offer cleanup of staging directory and logs after successful processing
+ * Offer cleanup of staging directory and logs after successful processing.
+ * stagingDir is null when the input was an existing Takeout folder, which is
+ * the user's data and never deleted. After a move, staging only holds what was
+ * not organized (sidecars, skipped and failed files).
  */
 export async function offerCleanup(
-  stagingDir: string,
+  stagingDir: string | null,
   logDir: string,
-  hasFailures: boolean
+  hasFailures: boolean,
+  movedFiles: number = 0
 ): Promise<void> {
   // Skip in non-interactive mode
   if (!isInteractive()) {
@@ -65,24 +46,31 @@ export async function offerCleanup(
   }
 
   // Check what exists
-  const stagingExists = await fs.pathExists(stagingDir);
+  const staging = stagingDir && (await fs.pathExists(stagingDir)) ? stagingDir : null;
   const logDirExists = await fs.pathExists(logDir);
 
-  if (!stagingExists && !logDirExists) {
+  if (!staging && !logDirExists) {
     return;
   }
 
   // Calculate sizes
-  const stagingSize = stagingExists ? await getDirectorySize(stagingDir) : 0;
+  const stagingSize = staging ? await getDirectorySize(staging) : 0;
   const logSize = logDirExists ? await getDirectorySize(logDir) : 0;
 
   // Warn about partial success
   if (hasFailures) {
     logger.warn('Some files failed. Staging may be useful for debugging.');
   }
+  if (staging && movedFiles > 0) {
+    console.log(
+      `\n${movedFiles} files were moved out of staging into the output; they are not affected by the cleanup.`
+    );
+  }
 
   const totalSize = stagingSize + logSize;
-  const shouldCleanup = await promptCleanup(totalSize);
+  const stagingWhat = movedFiles > 0 ? 'what is left in staging' : 'staging';
+  const what = staging ? `${stagingWhat} and logs` : 'logs';
+  const shouldCleanup = await promptCleanup(what, totalSize);
 
   if (!shouldCleanup) {
     return;
@@ -92,9 +80,9 @@ export async function offerCleanup(
   logger.info('Cleaning up', { stagingDir, logDir, totalSize });
 
   try {
-    if (stagingExists) await fs.remove(stagingDir);
+    if (staging) await fs.remove(staging);
     if (logDirExists) await fs.remove(logDir);
-    logger.info('Cleaned up staging and logs.');
+    logger.info(`Cleaned up ${what}.`);
   } catch (error) {
     logger.error('Cleanup failed', {
       error: error instanceof Error ? error.message : String(error),
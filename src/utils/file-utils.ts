@@ -1,6 +1,8 @@
 import fs from 'fs-extra';
+import path from 'path';
 import { statfs } from 'fs/promises';
 import crypto from 'crypto';
+import type { LinkMode } from '../types/processing.js';
 
 export const MAX_UNIQUE_FILENAME_ATTEMPTS = 10000;
 
@@ -8,6 +10,19 @@ export function generateFileId(filePath: string): string {
   return crypto.createHash('md5').update(filePath).digest('hex');
 }
 
+/**
+ * SHA-256 of a stream's content. Listeners are used instead of async iteration:
+ * the streams of stored ZIP entries never emit 'close'.
+ */
+export function hashStream(stream: NodeJS.ReadableStream): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    stream.on('data', (chunk: Buffer) => hash.update(chunk));
+    stream.on('end', () => resolve(hash.digest('hex')));
+    stream.on('error', reject);
+  });
+}
+
 export async function getFileSize(filePath: string): Promise<number> {
   try {
     const stats = await fs.stat(filePath);
@@ -17,19 +32,54 @@ export async function getFileSize(filePath: string): Promise<number> {
   }
 }
 
-export async function createHardLinkOrCopy(
+export async function getFileModifiedTime(filePath: string): Promise<Date | null> {
+  try {
+    const stats = await fs.stat(filePath);
+    return stats.mtime;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create target as a hard link, a copy-on-write clone (reflink, btrfs/XFS/APFS)
+ * or a relative symlink to source, falling back to a full copy if the file
+ * system can't do it
+ */
+export async function createLinkOrCopy(
   source: string,
   target: string,
+  mode: Exclude<LinkMode, 'copy'>,
   fallbackToCopy: boolean = true
 ): Promise<
-  | { success: true; method: 'hardlink' | 'copy' }
+  | { success: true; method: LinkMode }
   | { success: false; method: 'failed'; errorCode?: string; errorMessage?: string }
 > {
   try {
-    await fs.link(source, target);
-    return { success: true, method: 'hardlink' };
+    if (mode === 'hardlink') {
+      await fs.link(source, target);
+    } else if (mode === 'reflink') {
+      // FICLONE_FORCE fails instead of silently copying, so the fallback is reported
+      await fs.copyFile(
+        source,
+        target,
+        fs.constants.COPYFILE_EXCL | fs.constants.COPYFILE_FICLONE_FORCE
+      );
+    } else {
+      await fs.symlink(path.relative(path.dirname(target), source), target);
+    }
+    return { success: true, method: mode };
   } catch (error: unknown) {
     const linkError = error as NodeJS.ErrnoException;
+    // A taken name is not something a copy can fix
+    if (linkError?.code === 'EEXIST') {
+      return {
+        success: false,
+        method: 'failed',
+        errorCode: linkError.code,
+        errorMessage: linkError.message,
+      };
+    }
     if (fallbackToCopy) {
       try {
         await fs.copy(source, target, {
@@ -57,6 +107,28 @@ export async function createHardLinkOrCopy(
   }
 }
 
+/**
+ * Calculate total size of a directory in bytes
+ */
+export async function getDirectorySize(dirPath: string): Promise<number> {
+  if (!(await fs.pathExists(dirPath))) return 0;
+
+  let totalSize = 0;
+  const items = await fs.readdir(dirPath, { withFileTypes: true });
+
+  for (const item of items) {
+    const itemPath = path.join(dirPath, item.name);
+    if (item.isDirectory()) {
+      totalSize += await getDirectorySize(itemPath);
+    } else {
+      const stats = await fs.stat(itemPath);
+      totalSize += stats.size;
+    }
+  }
+
+  return totalSize;
+}
+
 export async function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -77,3 +149,21 @@ export async function getAvailableDiskSpace(dirPath: string): Promise<number | n
     return null;
   }
 }
+
+/**
+ * Whether two paths are the same file on disk: hard links to one another, or a
+ * symlink and its target
+ */
+export async function isSameFile(path1: string | null, path2: string | null): Promise<boolean> {
+  if (!path1 || !path2) {
+    return false;
+  }
+
+  try {
+    const stats1 = await fs.stat(path1);
+    const stats2 = await fs.stat(path2);
+    return stats1.dev === stats2.dev && stats1.ino === stats2.ino;
+  } catch {
+    return false;
+  }
+}
@@ -1,5 +1,6 @@
 import path from 'path';
-import { DUPLICATE_PATTERN } from '../constants.js';
+import type { TakeoutLocale } from '../types/processing.js';
+import { DEFAULT_LOCALE, DUPLICATE_PATTERN, TAKEOUT_LOCALES } from '../constants.js';
 
 export function parseDuplicateFilename(filename: string): {
   baseFilename: string;
@@ -42,8 +43,52 @@ export function getSourceFolder(filePath: string, googlePhotosDir: string): stri
   return sourceFolder;
 }
 
-export function isAlbumFolder(folderName: string): boolean {
+export function matchYearFolder(
+  folderName: string,
+  locale: TakeoutLocale = DEFAULT_LOCALE
+): number | null {
+  const match = folderName.match(locale.yearFolderPattern);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export function isAlbumFolder(folderName: string, locale: TakeoutLocale = DEFAULT_LOCALE): boolean {
   // Empty folder name means file is in root (no album)
-  // "Photos from YYYY" folders are year-based collections, not albums
-  return folderName !== '' && !folderName.startsWith('Photos from ');
+  // "Photos from YYYY" folders (localized) are year-based collections, not albums
+  return folderName !== '' && matchYearFolder(folderName, locale) === null;
+}
+
+/**
+ * Pick the locale whose year folder pattern matches the most folders
+ * among the locales using this Google Photos directory name
+ */
+export function detectTakeoutLocale(photosDir: string, folderNames: string[]): TakeoutLocale {
+  let best: TakeoutLocale | null = null;
+  let bestCount = -1;
+
+  for (const locale of TAKEOUT_LOCALES) {
+    if (locale.photosDir !== photosDir) continue;
+
+    const count = folderNames.filter((name) => locale.yearFolderPattern.test(name)).length;
+    if (count > bestCount) {
+      best = locale;
+      bestCount = count;
+    }
+  }
+
+  return best ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Turn an album title into a folder name that is valid on Windows, macOS and Linux.
+ * Returns an empty string if nothing usable is left.
+ */
+export function sanitizeFolderName(name: string): string {
+  return (
+    name
+      // eslint-disable-next-line no-control-regex
+      .replace(/[<>:"/\\|?*\x00-\x1f]/g, '_')
+      // Trailing dots and spaces are dropped by Windows (and rule out "." and "..")
+      .replace(/[. ]+$/, '')
+      .trim()
+  );
 }
@@ -37,11 +37,73 @@ export class ProgressTracker {
     if (stats.exifFailures > 0) {
       console.log(`  EXIF write failures: ${chalk.yellow(stats.exifFailures.toString())}`);
     }
+    if (stats.rejectedEntries > 0) {
+      console.log(`  Rejected archive entries: ${chalk.yellow(stats.rejectedEntries.toString())}`);
+    }
     if (stats.timestampFailures > 0) {
       console.log(`  Timestamp failures: ${chalk.yellow(stats.timestampFailures.toString())}`);
     }
+    if (stats.movedFiles > 0) {
+      console.log(`  Moved from staging: ${stats.movedFiles}`);
+    }
+    if (stats.mergedAppearances > 0) {
+      console.log(`  Album appearances merged: ${stats.mergedAppearances}`);
+    }
+    if (stats.livePhotoPairs > 0) {
+      console.log(`  Live Photo pairs: ${stats.livePhotoPairs}`);
+    }
+    if (stats.editedVariants > 0) {
+      console.log(`  Edited variants linked: ${stats.editedVariants}`);
+    }
+    if (stats.skippedFiles > 0) {
+      console.log(`  Skipped by edited policy: ${stats.skippedFiles}`);
+    }
+    if (stats.favoriteFiles > 0) {
+      console.log(`  Favorites: ${stats.favoriteFiles}`);
+    }
+    if (stats.archivedFiles > 0) {
+      console.log(`  Archived: ${stats.archivedFiles}`);
+    }
+    if (stats.trashedFiles > 0) {
+      console.log(`  Trashed: ${chalk.yellow(stats.trashedFiles.toString())}`);
+    }
+    if (stats.mediaWithoutMetadata > 0) {
+      console.log(
+        `  Media without metadata: ${chalk.yellow(stats.mediaWithoutMetadata.toString())}`
+      );
+    }
+    if (stats.orphanedSidecars > 0) {
+      console.log(`  Orphaned sidecars: ${chalk.yellow(stats.orphanedSidecars.toString())}`);
+    }
+    if (stats.unsupportedFiles > 0) {
+      console.log(`  Unsupported files: ${chalk.yellow(stats.unsupportedFiles.toString())}`);
+    }
     console.log(`  Duplicate groups: ${chalk.yellow(stats.duplicateGroups.toString())}`);
+    if (stats.duplicateFiles > 0) {
+      console.log(
+        `  Duplicate copies: ${stats.duplicateFiles} (${formatBytes(stats.duplicateBytes)} could be saved)`
+      );
+    }
+    if (stats.nearDuplicateClusters > 0) {
+      console.log(
+        `  Near-duplicate clusters: ${stats.nearDuplicateClusters} (${stats.nearDuplicateFiles} files)`
+      );
+    }
+    if (stats.resolvedDuplicates > 0) {
+      console.log(
+        `  Duplicates resolved: ${stats.resolvedDuplicates} (copies skipped, linked or quarantined)`
+      );
+    }
     console.log(`  Albums: ${stats.albumCount}`);
+    const linkCounts = Object.entries(stats.linkMethods).filter(([, count]) => count > 0);
+    if (linkCounts.length > 0) {
+      console.log(
+        `  Links: ${linkCounts.map(([method, count]) => `${count} ${method}`).join(', ')}`
+      );
+    }
+    if (stats.linkFallbacks > 0) {
+      console.log(`  Links copied instead: ${chalk.yellow(stats.linkFallbacks.toString())}`);
+    }
     console.log(`  Year range: ${stats.yearRange.min}-${stats.yearRange.max}`);
     console.log(`  Total size: ${formatBytes(stats.totalSize)}`);
 
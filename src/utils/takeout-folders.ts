@@ -0,0 +1,45 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { TAKEOUT_DIR } from '../constants.js';
+
+async function isDirectory(dirPath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(dirPath)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find already-extracted Takeout folders in the input directory. The input can be
+ * a Takeout folder itself, contain one, or contain one folder per extracted archive
+ * (e.g. takeout-...-001/Takeout, takeout-...-002/Takeout).
+ */
+export async function findTakeoutFolders(inputDir: string): Promise<string[]> {
+  const resolved = path.resolve(inputDir);
+
+  if (path.basename(resolved) === TAKEOUT_DIR && (await isDirectory(resolved))) {
+    return [resolved];
+  }
+
+  const direct = path.join(resolved, TAKEOUT_DIR);
+  if (await isDirectory(direct)) {
+    return [direct];
+  }
+
+  if (!(await isDirectory(resolved))) {
+    return [];
+  }
+
+  const folders: string[] = [];
+  const entries = await fs.readdir(resolved, { withFileTypes: true });
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const candidate = path.join(resolved, entry.name, TAKEOUT_DIR);
+    if (await isDirectory(candidate)) {
+      folders.push(candidate);
+    }
+  }
+
+  return folders.sort();
+}
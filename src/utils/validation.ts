@@ -1,82 +1,284 @@
 import fs from 'fs-extra';
-import { glob } from 'glob';
+import path from 'path';
 import readline from 'readline';
-import type { ProcessingContext } from '../types/processing.js';
-import { formatBytes, getAvailableDiskSpace } from './file-utils.js';
+import type {
+  DuplicatePolicy,
+  DuplicateScope,
+  EditedPolicy,
+  InputMode,
+  KeeperCriterion,
+  LinkMode,
+  ProcessingContext,
+  TransferMode,
+  TrashedPolicy,
+} from '../types/processing.js';
+import { validateTarArchive } from '../services/tar-archive.js';
+import { ExtractionManifest } from '../services/extraction-manifest.js';
+import {
+  FILENAME_TEMPLATE_TOKENS,
+  findTemplateErrors,
+  listTemplateTokens,
+  PATH_TEMPLATE_TOKENS,
+} from '../services/path-template.js';
+import { findArchives, findArchiveSetIssues } from './archive-utils.js';
+import { findTakeoutFolders } from './takeout-folders.js';
+import { formatBytes, getAvailableDiskSpace, getDirectorySize } from './file-utils.js';
 import logger from './logger.js';
 
+const INPUT_MODES: InputMode[] = ['extract', 'stream', 'folder'];
+const EDITED_POLICIES: EditedPolicy[] = ['both', 'edited', 'original'];
+const TRASHED_POLICIES: TrashedPolicy[] = ['exclude', 'quarantine', 'include'];
+const DUPLICATE_POLICIES: DuplicatePolicy[] = ['keep', 'skip', 'link', 'quarantine'];
+const DUPLICATE_SCOPES: DuplicateScope[] = ['exact', 'near'];
+const KEEPER_CRITERIA: KeeperCriterion[] = ['metadata', 'resolution', 'date'];
+const LINK_MODES: LinkMode[] = ['hardlink', 'reflink', 'symlink', 'copy'];
+const TRANSFER_MODES: TransferMode[] = ['copy', 'move'];
+
 /**
- * Prompt user to continue when disk space is insufficient
+ * Prompt user to continue despite a problem
  */
-async function promptContinue(estimatedRequired: number, availableSpace: number): Promise<boolean> {
+async function promptContinue(problem: string): Promise<boolean> {
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
   });
 
   return new Promise((resolve) => {
-    rl.question(
-      `\nInsufficient disk space! Required: ~${formatBytes(estimatedRequired)}, Available: ${formatBytes(availableSpace)}\nContinue anyway? [y/N] `,
-      (answer) => {
-        rl.close();
-        resolve(answer.trim().toLowerCase() === 'y');
-      }
-    );
+    rl.question(`\n${problem}\nContinue anyway? [y/N] `, (answer) => {
+      rl.close();
+      resolve(answer.trim().toLowerCase() === 'y');
+    });
   });
 }
 
-export async function validateEnvironment(context: ProcessingContext): Promise<void> {
-  const errors: string[] = [];
+/**
+ * Check available disk space, asking whether to continue when it is too low
+ */
+async function checkDiskSpace(
+  context: ProcessingContext,
+  estimatedRequired: number,
+  errors: string[]
+): Promise<void> {
+  const availableSpace = await getAvailableDiskSpace(context.outputDir);
+  if (availableSpace !== null && availableSpace < estimatedRequired) {
+    if (process.stdin.isTTY) {
+      const shouldContinue = await promptContinue(
+        `Insufficient disk space! Required: ~${formatBytes(estimatedRequired)}, Available: ${formatBytes(availableSpace)}`
+      );
+      if (!shouldContinue) {
+        errors.push('Aborted due to insufficient disk space');
+      }
+    } else {
+      logger.warn(
+        `Insufficient disk space! Required: ~${formatBytes(estimatedRequired)}, Available: ${formatBytes(availableSpace)}`
+      );
+    }
+  }
+}
 
-  // Check ZIP files exist and calculate total size
+/**
+ * Check archives exist, form complete exports and fit on disk once extracted
+ */
+async function validateArchiveInput(context: ProcessingContext, errors: string[]): Promise<void> {
+  const inputMode = context.config.input.mode;
   const zipPattern = context.config.input.zipPattern;
   const zipDirectory = context.config.input.zipDirectory;
-  const zipFiles = await glob(zipPattern, { cwd: zipDirectory, absolute: true });
+  const archives = await findArchives(context.config.input);
 
-  if (zipFiles.length === 0) {
-    errors.push(`No ZIP files found matching pattern: ${zipPattern} in ${zipDirectory}`);
+  if (archives.length === 0) {
+    errors.push(`No archives found matching pattern: ${zipPattern} in ${zipDirectory}`);
   } else {
-    // Calculate total ZIP size and estimate required disk space
-    let totalZipSize = 0;
-    for (const zipFile of zipFiles) {
+    // Check the archives form complete exports before spending time on extraction
+    const setIssues = findArchiveSetIssues(archives);
+    if (setIssues.length > 0) {
+      for (const issue of setIssues) {
+        logger.warn(issue);
+      }
+      if (process.stdin.isTTY) {
+        const shouldContinue = await promptContinue(
+          `Incomplete or mixed Takeout archive set:\n  ${setIssues.join('\n  ')}\nPhotos and their metadata may be split across the missing parts.`
+        );
+        if (!shouldContinue) {
+          errors.push('Aborted due to incomplete archive set');
+        }
+      }
+    }
+
+    // Calculate total archive size and the size of their extracted content
+    const manifest = await ExtractionManifest.load(context.stagingDir);
+    let totalArchiveSize = 0;
+    let totalExtractedSize = 0;
+    for (const archive of archives) {
       try {
-        const stats = await fs.stat(zipFile);
-        totalZipSize += stats.size;
+        const stats = await fs.stat(archive.path);
+        totalArchiveSize += stats.size;
+
+        if (archive.format === 'tgz' && manifest.isFileUnchanged(archive.path, stats)) {
+          // Listing a .tgz decompresses all of it: trust the size recorded when it was extracted
+          totalExtractedSize += manifest.getUncompressedSize(archive.path) ?? stats.size;
+        } else if (archive.format === 'tgz') {
+          // Tar headers give the exact extracted size
+          const validation = await validateTarArchive(archive.path);
+          if (!validation.valid) {
+            errors.push(`Invalid archive ${path.basename(archive.path)}: ${validation.error}`);
+          }
+          totalExtractedSize += validation.uncompressedSize;
+        } else {
+          // Photos barely compress, so a ZIP extracts to about its own size
+          totalExtractedSize += stats.size;
+        }
       } catch {
         // Skip files we can't stat
       }
     }
 
-    // Estimate: ZIPs expand ~2x when extracted, plus organized copy = ~3x total
-    // With hard links, album copies don't add space, so estimate ~2x
-    const estimatedRequired = totalZipSize * 2;
-    logger.info(`Found ${zipFiles.length} ZIP files (${formatBytes(totalZipSize)} total)`);
+    // Estimate: extracted staging copy + organized copy = ~2x
+    // With hard links, album copies don't add space
+    // Streaming from the ZIPs skips staging, so only the output counts
+    const streamMode = inputMode === 'stream';
+    const estimatedRequired = streamMode ? totalExtractedSize : totalExtractedSize * 2;
+    logger.info(`Found ${archives.length} archives (${formatBytes(totalArchiveSize)} total)`);
     logger.info(
-      `Estimated disk space required: ${formatBytes(estimatedRequired)} (staging + output)`
+      `Estimated disk space required: ${formatBytes(estimatedRequired)} (${streamMode ? 'output only' : 'staging + output'})`
     );
 
-    // Check available disk space
-    const availableSpace = await getAvailableDiskSpace(context.outputDir);
-    if (availableSpace !== null && availableSpace < estimatedRequired) {
-      if (process.stdin.isTTY) {
-        const shouldContinue = await promptContinue(estimatedRequired, availableSpace);
-        if (!shouldContinue) {
-          errors.push('Aborted due to insufficient disk space');
-        }
-      } else {
-        logger.warn(
-          `Insufficient disk space! Required: ~${formatBytes(estimatedRequired)}, Available: ${formatBytes(availableSpace)}`
-        );
-      }
+    await checkDiskSpace(context, estimatedRequired, errors);
+  }
+}
+
+/**
+ * Check the input holds extracted Takeout folders and the output fits on disk.
+ * The folders are used in place, so only the organized copy needs space.
+ */
+async function validateTakeoutFolders(context: ProcessingContext, errors: string[]): Promise<void> {
+  const takeoutDirs = await findTakeoutFolders(context.inputDir);
+
+  if (takeoutDirs.length === 0) {
+    errors.push(`No Takeout folder found in ${context.inputDir}`);
+    return;
+  }
+
+  // Organized files inside the input would be discovered again on the next run
+  for (const takeoutDir of takeoutDirs) {
+    const relative = path.relative(takeoutDir, context.outputDir);
+    if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+      errors.push(`Output directory must not be inside the Takeout folder: ${takeoutDir}`);
     }
   }
 
-  // Check write permissions
-  try {
-    await fs.ensureDir(context.stagingDir);
-    await fs.access(context.stagingDir, fs.constants.W_OK);
-  } catch {
-    errors.push(`Cannot write to staging directory: ${context.stagingDir}`);
+  let totalSize = 0;
+  for (const takeoutDir of takeoutDirs) {
+    totalSize += await getDirectorySize(takeoutDir);
+  }
+
+  logger.info(`Found ${takeoutDirs.length} Takeout folders (${formatBytes(totalSize)} total)`);
+  logger.info(`Estimated disk space required: ${formatBytes(totalSize)} (output only)`);
+
+  await checkDiskSpace(context, totalSize, errors);
+}
+
+export async function validateEnvironment(context: ProcessingContext): Promise<void> {
+  const errors: string[] = [];
+  const inputMode = context.config.input.mode;
+
+  if (!INPUT_MODES.includes(inputMode)) {
+    errors.push(`Unknown input mode: ${inputMode} (expected one of: ${INPUT_MODES.join(', ')})`);
+  }
+
+  const editedPolicy = context.config.processing.editedPolicy;
+  if (!EDITED_POLICIES.includes(editedPolicy)) {
+    errors.push(
+      `Unknown edited policy: ${editedPolicy} (expected one of: ${EDITED_POLICIES.join(', ')})`
+    );
+  }
+
+  const trashedPolicy = context.config.processing.trashedPolicy;
+  if (!TRASHED_POLICIES.includes(trashedPolicy)) {
+    errors.push(
+      `Unknown trashed policy: ${trashedPolicy} (expected one of: ${TRASHED_POLICIES.join(', ')})`
+    );
+  }
+
+  const linkMode = context.config.processing.linkMode;
+  if (!LINK_MODES.includes(linkMode)) {
+    errors.push(`Unknown link mode: ${linkMode} (expected one of: ${LINK_MODES.join(', ')})`);
+  }
+
+  const transfer = context.config.processing.transfer;
+  if (!TRANSFER_MODES.includes(transfer)) {
+    errors.push(
+      `Unknown transfer mode: ${transfer} (expected one of: ${TRANSFER_MODES.join(', ')})`
+    );
+  } else if (transfer === 'move' && inputMode !== 'extract') {
+    // Streamed files stay in their archives, and Takeout folders are the user's data
+    errors.push('Transfer mode "move" only works with input mode "extract"');
+  }
+
+  const nearDuplicateDistance = context.config.processing.nearDuplicateDistance;
+  if (
+    !Number.isInteger(nearDuplicateDistance) ||
+    nearDuplicateDistance < 0 ||
+    nearDuplicateDistance > 64
+  ) {
+    errors.push(
+      `Invalid near-duplicate distance: ${nearDuplicateDistance} (expected a whole number of bits from 0 to 64)`
+    );
+  }
+
+  const { duplicatePolicy, duplicateScope, duplicateKeeperPreference } = context.config.processing;
+  if (!DUPLICATE_POLICIES.includes(duplicatePolicy)) {
+    errors.push(
+      `Unknown duplicate policy: ${duplicatePolicy} (expected one of: ${DUPLICATE_POLICIES.join(', ')})`
+    );
+  }
+  if (!DUPLICATE_SCOPES.includes(duplicateScope)) {
+    errors.push(
+      `Unknown duplicate scope: ${duplicateScope} (expected one of: ${DUPLICATE_SCOPES.join(', ')})`
+    );
+  } else if (duplicateScope === 'near' && !context.config.processing.detectNearDuplicates) {
+    errors.push('Duplicate scope "near" requires processing.detectNearDuplicates');
+  }
+  for (const criterion of duplicateKeeperPreference) {
+    if (!KEEPER_CRITERIA.includes(criterion)) {
+      errors.push(
+        `Unknown keeper criterion: ${criterion} (expected one of: ${KEEPER_CRITERIA.join(', ')})`
+      );
+    }
+  }
+
+  // The album token is only known when linking into an album
+  const { pathTemplate, albumPathTemplate } = context.config.output;
+  const yearTokens = PATH_TEMPLATE_TOKENS.filter((token) => token !== 'album');
+  for (const error of findTemplateErrors(pathTemplate, yearTokens)) {
+    errors.push(`Invalid output.pathTemplate "${pathTemplate}": ${error}`);
+  }
+  for (const error of findTemplateErrors(albumPathTemplate, PATH_TEMPLATE_TOKENS)) {
+    errors.push(`Invalid output.albumPathTemplate "${albumPathTemplate}": ${error}`);
+  }
+  const { filenameTemplate } = context.config.output;
+  for (const error of findTemplateErrors(filenameTemplate, FILENAME_TEMPLATE_TOKENS)) {
+    errors.push(`Invalid output.filenameTemplate "${filenameTemplate}": ${error}`);
+  }
+  if (!listTemplateTokens(albumPathTemplate).includes('album')) {
+    errors.push(
+      `Invalid output.albumPathTemplate "${albumPathTemplate}": must contain {album}, or all albums share one folder`
+    );
+  }
+
+  if (inputMode === 'folder') {
+    await validateTakeoutFolders(context, errors);
+  } else {
+    await validateArchiveInput(context, errors);
+  }
+
+  // Check write permissions (staging is only used when extracting the archives)
+  if (inputMode === 'extract') {
+    try {
+      await fs.ensureDir(context.stagingDir);
+      await fs.access(context.stagingDir, fs.constants.W_OK);
+    } catch {
+      errors.push(`Cannot write to staging directory: ${context.stagingDir}`);
+    }
   }
 
   try {